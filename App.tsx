@@ -1,23 +1,136 @@
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useEffect, useRef } from 'react';
 import { 
   Upload, FileText, Download, AlertCircle, CheckCircle, 
   RefreshCw, AlertTriangle, XCircle, Search, ChevronRight, 
-  MapPin, Truck, Calendar, FileCheck, ArrowRight
+  MapPin, Truck, Calendar, FileCheck, ArrowRight, RotateCcw, BookOpen, BookmarkPlus, ListChecks, Columns,
+  Calculator, Gauge, Save, GitCompare, FileDiff, FileArchive, FileSpreadsheet, Landmark, UserCheck
 } from 'lucide-react';
-import { parseRatesCSV, parseDriverPDF, generateMismatchCSV, generateAllTripsCSV, RateData, DriverReport, generatePDF } from './utils';
+import { 
+  readRateSheet, buildRateData, suggestColumnMapping, RateSheetTable, ColumnMapping, RateSheetValidity,
+  validateRateSheet, ConflictPolicy, generateMismatchCSV, generateAllTripsCSV, RateData, DriverReport, generatePDF,
+  resolveMissingRoute, clearRouteResolution, RouteResolution, LocationAliasMap, normalizeLocation,
+  reviewFuzzyMapping, countPendingReviews, ReviewDecision, ParseDiagnostic, generateDiagnosticsCSV, mergeDriverReports,
+  getDoIssueGroups, countUnresolvedDoIssues, resolveDoIssue, DoResolution, isHeldBack,
+  CommissionConfig, applyCommissionRules, STANDARD_RULE_NAME, generateWorkbook,
+  DriverRecord, applyDriverMaster, resolveDriverNames, isUnknownDriver, resolveDriver, buildTruckReports, generateTruckCSV,
+  pdfFileKey, withSourceKey
+} from './utils';
+import { loadAliases, saveAliases, aliasesFromFuzzyMatches } from './aliases';
+import { loadSavedMapping, saveMapping } from './rateSheetLayouts';
+import { loadCommissionConfig, saveCommissionConfig } from './commissionRules';
+import { loadDriverMaster, saveDriverMaster } from './driverMaster';
+import { ParseProgress, parsePdfInWorker } from './pdfParserClient';
+import {
+  SessionInfo, SessionSummary, newSessionInfo, listSessions, loadSession, saveSession, deleteSession,
+  importSessionFile, exportSessionFile, SavedSession, SessionSettings
+} from './sessions';
+import MissingRateEditor from './components/MissingRateEditor';
+import AliasManager from './components/AliasManager';
+import CommissionRulesEditor from './components/CommissionRulesEditor';
+import FuzzyReviewPanel from './components/FuzzyReviewPanel';
+import ColumnMappingWizard from './components/ColumnMappingWizard';
+import RateSheetValidationPanel from './components/RateSheetValidationPanel';
+import DiagnosticsPanel from './components/DiagnosticsPanel';
+import DuplicatesPanel, { DO_ISSUE_LABELS } from './components/DuplicatesPanel';
+import ParseProgressPanel from './components/ParseProgressPanel';
+import MatchBenchmarkPanel from './components/MatchBenchmarkPanel';
+import SessionHistory from './components/SessionHistory';
+import CompareRunsPanel from './components/CompareRunsPanel';
+import RateSheetDiffPanel from './components/RateSheetDiffPanel';
+import PayslipExportPanel from './components/PayslipExportPanel';
+import PayrollExportPanel from './components/PayrollExportPanel';
+import DriverMasterPanel from './components/DriverMasterPanel';
+import TruckView from './components/TruckView';
+
+// ?benchmark in the URL shows the matching benchmark button
+const BENCHMARK_MODE = new URLSearchParams(window.location.search).has('benchmark');
+
+// Sidebar search looks at the name, the employee ID and the names printed in the PDFs
+const matchesDriverSearch = (report: DriverReport, term: string): boolean => {
+  const needle = term.toLowerCase();
+  return [report.driverName, report.employeeId || '', ...(report.pdfNames || [])].some(v => v.toLowerCase().includes(needle));
+};
 
 const App: React.FC = () => {
   const [rateData, setRateData] = useState<RateData | null>(null);
+  const [rateTable, setRateTable] = useState<RateSheetTable | null>(null);
+  const [columnMapping, setColumnMapping] = useState<ColumnMapping | null>(null);
+  const [rateValidity, setRateValidity] = useState<RateSheetValidity>({});
+  const [conflictPolicy, setConflictPolicy] = useState<ConflictPolicy>('LAST');
+  const [showMapping, setShowMapping] = useState(false);
   const [reports, setReports] = useState<DriverReport[]>([]);
+  const [documentDiagnostics, setDocumentDiagnostics] = useState<ParseDiagnostic[]>([]);
+  const [sourceFiles, setSourceFiles] = useState<string[]>([]);
+  const [sourceFileKeys, setSourceFileKeys] = useState<string[]>([]);
+  const [activeView, setActiveView] = useState<'TRIPS' | 'DIAGNOSTICS'>('TRIPS');
   const [isLoading, setIsLoading] = useState(false);
+  const [parseProgress, setParseProgress] = useState<(ParseProgress & { fileIndex: number; fileCount: number }) | null>(null);
+  const parseAbort = useRef<AbortController | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [activeDriverIndex, setActiveDriverIndex] = useState(0);
   const [driverSearchTerm, setDriverSearchTerm] = useState('');
+  const [aliases, setAliases] = useState<LocationAliasMap>(loadAliases);
+  const [showAliases, setShowAliases] = useState(false);
+  const [showReview, setShowReview] = useState(false);
+  const [commissionConfig, setCommissionConfig] = useState<CommissionConfig>(loadCommissionConfig);
+  const [otFilter, setOtFilter] = useState<string>('ALL'); // 'ALL', 'ANY', 'NONE' or an OT code
+  const [showRules, setShowRules] = useState(false);
+  const [showBenchmark, setShowBenchmark] = useState(false);
+  const [session, setSession] = useState<SessionInfo | null>(null);
+  const [savedSessions, setSavedSessions] = useState<SessionSummary[]>([]);
+  const [showCompare, setShowCompare] = useState(false);
+  const [showRateDiff, setShowRateDiff] = useState(false);
+  const [showPayslips, setShowPayslips] = useState(false);
+  const [showPayroll, setShowPayroll] = useState(false);
+  const [driverMaster, setDriverMaster] = useState<DriverRecord[]>(loadDriverMaster);
+  const [showDrivers, setShowDrivers] = useState(false);
+  const [sidebarMode, setSidebarMode] = useState<'DRIVERS' | 'TRUCKS'>('DRIVERS');
+  // Settings restored from an opened session are used for it but not saved over this browser's own
+  const sessionSettings = useRef<SessionSettings | null>(null);
+
+  useEffect(() => {
+    if (aliases !== sessionSettings.current?.aliases) saveAliases(aliases);
+  }, [aliases]);
+
+  useEffect(() => {
+    if (commissionConfig !== sessionSettings.current?.commissionConfig) saveCommissionConfig(commissionConfig);
+  }, [commissionConfig]);
+
+  useEffect(() => {
+    if (driverMaster !== sessionSettings.current?.driverMaster) saveDriverMaster(driverMaster);
+  }, [driverMaster]);
+
+  const refreshSessions = () => {
+    listSessions().then(setSavedSessions).catch(err => console.error(err));
+  };
+
+  useEffect(refreshSessions, []);
+
+  // Autosave the open session once parsing settles; edits within half a second are saved together
+  useEffect(() => {
+    if (!session || isLoading || reports.length === 0 || !rateTable || !columnMapping) return;
+    const timer = setTimeout(() => {
+      saveSession(session, {
+        rateTable, columnMapping, rateValidity, conflictPolicy, reports, documentDiagnostics, sourceFiles, sourceFileKeys,
+        settings: { aliases, commissionConfig, driverMaster }
+      }).catch(err => {
+        console.error(err);
+        setError("Could not save this session in the browser. Export it to keep a copy.");
+      });
+    }, 500);
+    return () => clearTimeout(timer);
+  }, [
+    session, isLoading, reports, rateTable, columnMapping, rateValidity, conflictPolicy, documentDiagnostics, sourceFiles, sourceFileKeys,
+    aliases, commissionConfig, driverMaster
+  ]);
 
   // Derived state for stats
-  const { totalMismatches, totalFuzzy, missingRoutes, totalTrips } = useMemo(() => {
+  const { totalMismatches, totalFuzzy, totalManual, totalAlias, totalOutsideWindow, missingRoutes, totalTrips } = useMemo(() => {
     let mismatches = 0;
     let fuzzy = 0;
+    let manual = 0;
+    let alias = 0;
+    let outsideWindow = 0;
     let trips = 0;
     const routes = new Set<string>();
 
@@ -26,8 +139,15 @@ const App: React.FC = () => {
       fuzzy += r.fuzzyTrips;
       trips += r.transactions.length;
       r.transactions.forEach(t => {
+        if (t.outsideRateWindow) {
+          outsideWindow += 1;
+        }
         if (t.matchType === 'NONE') {
           routes.add(`${t.pickup} → ${t.drop}`);
+        } else if (t.matchType === 'MANUAL') {
+          manual += 1;
+        } else if (t.matchType === 'ALIAS') {
+          alias += 1;
         }
       });
     });
@@ -35,59 +155,372 @@ const App: React.FC = () => {
     return {
       totalMismatches: mismatches,
       totalFuzzy: fuzzy,
+      totalManual: manual,
+      totalAlias: alias,
+      totalOutsideWindow: outsideWindow,
       totalTrips: trips,
       missingRoutes: Array.from(routes).sort()
     };
   }, [reports]);
 
+  // Rate-sheet routes offered when resolving a missing rate
+  const routeOptions = useMemo(() => {
+    if (!rateData) return [];
+    return Object.keys(rateData.rateMap).map(key => key.replace('|', ' → ')).sort();
+  }, [rateData]);
+
+  const rateLocations = useMemo(() => {
+    if (!rateData) return [];
+    return Array.from(new Set([...rateData.validPickups, ...rateData.validDrops])).sort();
+  }, [rateData]);
+
+  const otCodes = useMemo(() => {
+    const codes = new Set<string>();
+    reports.forEach(r => r.transactions.forEach(t => { if (t.overtime) codes.add(t.overtime.code); }));
+    return Array.from(codes).sort();
+  }, [reports]);
+
+  const rateValidation = useMemo(() => {
+    if (!rateTable || !columnMapping) return null;
+    return validateRateSheet(rateTable, columnMapping, rateValidity);
+  }, [rateTable, columnMapping, rateValidity]);
+
+  const fuzzyAliasSuggestions = useMemo(() => aliasesFromFuzzyMatches(reports), [reports]);
+
+  const pendingReviews = useMemo(() => countPendingReviews(reports), [reports]);
+
   const handleCSVUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files[0]) {
       setIsLoading(true);
       setError(null);
+      setRateData(null);
+      setColumnMapping(null);
+      setRateValidity({});
       try {
-        const data = await parseRatesCSV(e.target.files[0]);
-        setRateData(data);
+        const table = await readRateSheet(e.target.files[0]);
+        setRateTable(table);
+
+        // A layout we've seen before is applied straight away; anything else goes through the wizard
+        const saved = loadSavedMapping(table.headers);
+        if (saved) {
+          applyColumnMapping(table, saved, {});
+        } else {
+          setShowMapping(true);
+        }
       } catch (err) {
+        setRateTable(null);
         setError("Failed to parse CSV file. Please check the format.");
       } finally {
         setIsLoading(false);
+        e.target.value = '';
       }
     }
   };
 
+  const applyColumnMapping = (
+    table: RateSheetTable,
+    mapping: ColumnMapping,
+    validity: RateSheetValidity,
+    policy: ConflictPolicy = conflictPolicy,
+    remember = true // Off when restoring a session, so an old run doesn't replace the layout's saved mapping
+  ) => {
+    // Keep the mapping even if the build fails, so the validation panel can explain why
+    setColumnMapping(mapping);
+    setRateValidity(validity);
+    try {
+      setRateData(buildRateData(table, mapping, validity, policy));
+      if (remember) saveMapping(table.headers, mapping);
+      setError(null);
+    } catch (err) {
+      setRateData(null);
+      setError(err instanceof Error ? err.message : "The rate sheet has no usable rows.");
+    }
+  };
+
+  const handleConflictPolicyChange = (policy: ConflictPolicy) => {
+    setConflictPolicy(policy);
+    if (rateTable && columnMapping) {
+      applyColumnMapping(rateTable, columnMapping, rateValidity, policy);
+    }
+  };
+
+  const activeReport: DriverReport | undefined = reports[activeDriverIndex];
+  const activeDefaultTruck = activeReport && resolveDriver(activeReport.driverName, driverMaster)?.defaultTruck;
+  const activeOtherTruckTrips = activeReport && activeDefaultTruck
+    ? activeReport.transactions.filter(t => normalizeLocation(t.truck) !== normalizeLocation(activeDefaultTruck)).length
+    : 0;
+  // Only worth showing when the PDFs spelt the name differently from the master file
+  const activePrintedNames = activeReport?.pdfNames?.filter(name => name !== activeReport.driverName) || [];
+
+  const truckReports = useMemo(() => buildTruckReports(reports), [reports]);
+
+  const openDriver = (driverName: string) => {
+    const idx = reports.findIndex(r => r.driverName === driverName);
+    if (idx < 0) return;
+    setActiveDriverIndex(idx);
+    setActiveView('TRIPS');
+    setSidebarMode('DRIVERS');
+  };
+
+  const sidebarToggle = (
+    <div className="flex bg-slate-200/60 rounded-lg p-0.5 text-sm font-medium">
+      {(['DRIVERS', 'TRUCKS'] as const).map(mode => (
+        <button
+          key={mode}
+          onClick={() => setSidebarMode(mode)}
+          className={`flex-1 px-3 py-1.5 rounded-md transition-colors ${sidebarMode === mode ? 'bg-white text-slate-800 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+        >
+          {mode === 'DRIVERS' ? `Drivers (${reports.length})` : `Trucks (${truckReports.length})`}
+        </button>
+      ))}
+    </div>
+  );
+
+  const doIssueGroups = useMemo(() => getDoIssueGroups(reports), [reports]);
+  const unresolvedDoIssues = useMemo(() => countUnresolvedDoIssues(reports), [reports]);
+
+  const skippedDuplicates = useMemo(
+    () => reports.reduce((sum, r) => sum + r.diagnostics.filter(d => d.kind === 'DUPLICATE_TRIP').length, 0),
+    [reports]
+  );
+
   const handlePDFUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     if (!rateData) {
       setError("Please upload the Rates CSV first.");
       return;
     }
-    if (e.target.files && e.target.files[0]) {
-      setIsLoading(true);
-      setError(null);
-      try {
-        const processedReports = await parseDriverPDF(e.target.files[0], rateData);
-        setReports(processedReports);
-        setActiveDriverIndex(0);
-        setDriverSearchTerm(''); // Reset search on new upload
-      } catch (err) {
-        console.error(err);
-        setError("Failed to parse PDF file. Ensure it is a text-based PDF.");
-      } finally {
-        setIsLoading(false);
+    const files = Array.from(e.target.files || []);
+    e.target.value = ''; // Allow picking the same file again after Start Over
+    if (files.length === 0) return;
+
+    // A file already in the session would only produce duplicates; sessions saved before keys only know names
+    const loaded = new Set(sourceFileKeys);
+    const isLoaded = (f: File) => loaded.has(pdfFileKey(f)) || loaded.has(f.name);
+    const fresh = files.filter(f => !isLoaded(f));
+    const skipped = files.filter(isLoaded).map(f => f.name);
+
+    const notes: string[] = skipped.length > 0 ? [`Already loaded, skipped: ${skipped.join(', ')}.`] : [];
+
+    setIsLoading(true);
+    setError(notes.length > 0 ? notes.join(' ') : null);
+    if (fresh.length > 0) setSession(prev => prev ?? newSessionInfo(fresh.map(f => f.name)));
+    if (reports.length === 0) {
+      setActiveDriverIndex(0);
+      setDriverSearchTerm(''); // Reset search on new upload
+    }
+
+    const controller = new AbortController();
+    parseAbort.current = controller;
+    const failed: string[] = [];
+    let notParsed: string[] = [];
+    // Drivers from the files that finished; a file that doesn't finish goes back to this
+    let base = reports;
+    try {
+      for (const [fileIndex, file] of fresh.entries()) {
+        if (controller.signal.aborted) {
+          notParsed = fresh.slice(fileIndex).map(f => f.name);
+          break;
+        }
+        let streamed: DriverReport[] = [];
+        try {
+          // Drivers are shown as soon as the worker finishes them
+          const result = await parsePdfInWorker(file, rateData, aliases, commissionConfig, {
+            signal: controller.signal,
+            onDriver: (report) => {
+              if (parseAbort.current !== controller) return;
+              streamed = [...streamed, ...withSourceKey(resolveDriverNames([report], driverMaster), pdfFileKey(file))];
+              setReports(mergeDriverReports(base, streamed));
+            },
+            onProgress: (progress) => setParseProgress({ ...progress, fileIndex, fileCount: fresh.length })
+          });
+          if (parseAbort.current !== controller) return; // Start Over was pressed mid-parse
+          if (result.cancelled) {
+            setReports(base);
+            notes.push(`Stopped ${file.name} after page ${result.pagesRead} of ${result.totalPages}; none of its drivers were kept.`);
+            notParsed = fresh.slice(fileIndex + 1).map(f => f.name);
+            break;
+          }
+          base = mergeDriverReports(base, streamed);
+          setReports(base);
+          setDocumentDiagnostics(prev => [...prev, ...result.diagnostics]);
+          setSourceFiles(prev => [...prev, file.name]);
+          setSourceFileKeys(prev => [...prev, pdfFileKey(file)]);
+        } catch (err) {
+          console.error(err);
+          if (parseAbort.current !== controller) return;
+          setReports(base);
+          failed.push(file.name);
+        }
       }
+      if (notParsed.length > 0) notes.push(`Not parsed: ${notParsed.join(', ')}.`);
+      if (failed.length > 0) notes.push(`Failed to parse ${failed.join(', ')}. Ensure each is a text-based PDF.`);
+      setError(notes.length > 0 ? notes.join(' ') : null);
+    } finally {
+      if (parseAbort.current === controller) parseAbort.current = null;
+      setParseProgress(null);
+      setIsLoading(false);
+    }
+  };
+
+  const handleResolveRoute = (pickup: string, drop: string, resolution: RouteResolution) => {
+    if (!rateData) return;
+    try {
+      setReports(resolveMissingRoute(reports, pickup, drop, resolution, rateData, commissionConfig));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to apply the rate.");
     }
   };
 
+  const handleClearResolution = (pickup: string, drop: string) => {
+    setReports(clearRouteResolution(reports, pickup, drop, commissionConfig));
+  };
+
+  const handleResolveDoIssue = (driverIndex: number, tripIndex: number, resolution: DoResolution | undefined) => {
+    setReports(resolveDoIssue(reports, driverIndex, tripIndex, resolution));
+  };
+
+  const handleApplyRules = (config: CommissionConfig) => {
+    setCommissionConfig(config);
+    setReports(applyCommissionRules(reports, config));
+    setShowRules(false);
+  };
+
+  // Re-resolve the loaded drivers, keeping the same driver selected where it survives the merge
+  const handleDriverMasterChange = (master: DriverRecord[]) => {
+    setDriverMaster(master);
+    if (reports.length === 0) return;
+    const next = applyDriverMaster(reports, master);
+    const active = reports[activeDriverIndex];
+    const activeName = active && (resolveDriver(active.driverName, master)?.name ?? active.driverName);
+    setReports(next);
+    setActiveDriverIndex(Math.max(0, next.findIndex(r => r.driverName === activeName)));
+  };
+
+  // Adopt a new rate sheet; the reports were already re-priced against it in the diff
+  const handleSwitchRateSheet = (
+    table: RateSheetTable, mapping: ColumnMapping, validity: RateSheetValidity, next: RateData, repriced: DriverReport[]
+  ) => {
+    setRateTable(table);
+    setColumnMapping(mapping);
+    setRateValidity(validity);
+    setRateData(next);
+    saveMapping(table.headers, mapping);
+    setReports(repriced);
+    setShowRateDiff(false);
+  };
+
+  const handleReviewDecision = (pickup: string, drop: string, decision: ReviewDecision) => {
+    if (!rateData) return;
+    setReports(reviewFuzzyMapping(reports, pickup, drop, decision, rateData, commissionConfig));
+  };
+
+  // Accept a fuzzy match and record its pickup/drop spellings in the alias dictionary
+  const handleSaveFuzzyAlias = (pickup: string, drop: string, matchedPickup?: string, matchedDrop?: string) => {
+    if (!rateData) return;
+    setReports(reviewFuzzyMapping(reports, pickup, drop, { type: 'ACCEPT' }, rateData, commissionConfig));
+    const next = { ...aliases };
+    if (matchedPickup && normalizeLocation(pickup) !== matchedPickup) next[normalizeLocation(pickup)] = matchedPickup;
+    if (matchedDrop && normalizeLocation(drop) !== matchedDrop) next[normalizeLocation(drop)] = matchedDrop;
+    setAliases(next);
+  };
+
   const handleExport = () => {
     if (reports.length > 0) {
-      generatePDF(reports);
+      generatePDF(reports, session ? new Date(session.processedAt) : undefined);
     }
   };
 
   const resetAll = () => {
+    parseAbort.current?.abort();
+    parseAbort.current = null;
     setRateData(null);
+    setRateTable(null);
+    setColumnMapping(null);
+    setRateValidity({});
     setReports([]);
+    setDocumentDiagnostics([]);
+    setSourceFiles([]);
+    setSourceFileKeys([]);
+    setOtFilter('ALL');
     setError(null);
     setDriverSearchTerm('');
+    setSession(null);
+    if (sessionSettings.current) {
+      sessionSettings.current = null;
+      setAliases(loadAliases());
+      setCommissionConfig(loadCommissionConfig());
+      setDriverMaster(loadDriverMaster());
+    }
+    refreshSessions();
+  };
+
+  const openSession = (saved: SavedSession) => {
+    resetAll();
+    setRateTable(saved.rateTable);
+    setConflictPolicy(saved.conflictPolicy);
+    applyColumnMapping(saved.rateTable, saved.columnMapping, saved.rateValidity, saved.conflictPolicy, false);
+    if (saved.settings) {
+      sessionSettings.current = saved.settings;
+      setAliases(saved.settings.aliases);
+      setCommissionConfig(saved.settings.commissionConfig);
+      setDriverMaster(saved.settings.driverMaster);
+    }
+    setReports(saved.reports);
+    setDocumentDiagnostics(saved.documentDiagnostics);
+    setSourceFiles(saved.sourceFiles);
+    setSourceFileKeys(saved.sourceFileKeys ?? saved.sourceFiles);
+    setActiveDriverIndex(0);
+    setSession({ id: saved.id, name: saved.name, processedAt: saved.processedAt });
+  };
+
+  const handleOpenSession = async (id: string) => {
+    try {
+      const saved = await loadSession(id);
+      if (!saved) throw new Error('Session not found');
+      openSession(saved);
+    } catch (err) {
+      console.error(err);
+      setError("Failed to open the session.");
+      refreshSessions();
+    }
+  };
+
+  const handleImportSession = async (file: File) => {
+    try {
+      openSession(await importSessionFile(file));
+    } catch (err) {
+      console.error(err);
+      setError(`Failed to import ${file.name}. ${err instanceof Error ? err.message : ''}`);
+    }
+  };
+
+  const handleExportSession = async (id: string) => {
+    try {
+      const saved = await loadSession(id);
+      if (!saved) throw new Error('Session not found');
+      exportSessionFile(saved);
+    } catch (err) {
+      console.error(err);
+      setError("Failed to export the session.");
+    }
+  };
+
+  // Exports what is on screen, which may be newer than the last autosave
+  const handleExportCurrentSession = () => {
+    if (!session || !rateTable || !columnMapping) return;
+    exportSessionFile({
+      ...session,
+      updatedAt: new Date().toISOString(),
+      rateTable, columnMapping, rateValidity, conflictPolicy, reports, documentDiagnostics, sourceFiles, sourceFileKeys,
+      settings: { aliases, commissionConfig, driverMaster }
+    });
+  };
+
+  const handleDeleteSession = (id: string) => {
+    deleteSession(id).then(refreshSessions).catch(err => {
+      console.error(err);
+      setError("Failed to delete the session.");
+    });
   };
 
   return (
@@ -106,8 +539,69 @@ const App: React.FC = () => {
             </div>
             
             <div className="flex items-center gap-4">
+              <button 
+                onClick={() => setShowAliases(true)}
+                className="flex items-center gap-2 text-slate-500 hover:text-slate-700 font-medium text-sm transition-colors"
+              >
+                <BookOpen className="w-4 h-4" />
+                Aliases
+              </button>
+
+              <button 
+                onClick={() => setShowDrivers(true)}
+                className="flex items-center gap-2 text-slate-500 hover:text-slate-700 font-medium text-sm transition-colors"
+              >
+                <UserCheck className="w-4 h-4" />
+                Drivers{driverMaster.length > 0 ? ` (${driverMaster.length})` : ''}
+              </button>
+
+              <button 
+                onClick={() => setShowRules(true)}
+                className="flex items-center gap-2 text-slate-500 hover:text-slate-700 font-medium text-sm transition-colors"
+              >
+                <Calculator className="w-4 h-4" />
+                Rules{commissionConfig.rules.length > 0 ? ` (${commissionConfig.rules.length})` : ''}
+              </button>
+
+              {rateData && rateTable && reports.length > 0 && (
+                <button 
+                  onClick={() => setShowRateDiff(true)}
+                  className="flex items-center gap-2 text-slate-500 hover:text-slate-700 font-medium text-sm transition-colors"
+                >
+                  <FileDiff className="w-4 h-4" />
+                  New Rates
+                </button>
+              )}
+
+              {(reports.length > 0 || savedSessions.length > 1) && (
+                <button 
+                  onClick={() => { refreshSessions(); setShowCompare(true); }}
+                  className="flex items-center gap-2 text-slate-500 hover:text-slate-700 font-medium text-sm transition-colors"
+                >
+                  <GitCompare className="w-4 h-4" />
+                  Compare
+                </button>
+              )}
+
+              {BENCHMARK_MODE && rateData && reports.length > 0 && (
+                <button 
+                  onClick={() => setShowBenchmark(true)}
+                  className="flex items-center gap-2 text-slate-500 hover:text-slate-700 font-medium text-sm transition-colors"
+                >
+                  <Gauge className="w-4 h-4" />
+                  Benchmark
+                </button>
+              )}
+
               {reports.length > 0 && (
                 <>
+                  <label className={`flex items-center gap-2 font-medium text-sm transition-colors cursor-pointer
+                    ${isLoading ? 'text-slate-300 pointer-events-none' : 'text-slate-500 hover:text-slate-700'}`}>
+                    {isLoading ? <RefreshCw className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+                    {isLoading ? 'Processing...' : 'Add PDFs'}
+                    <input type="file" accept=".pdf" multiple onChange={handlePDFUpload} disabled={isLoading} className="hidden" />
+                  </label>
+
                   <button 
                     onClick={resetAll}
                     className="text-slate-500 hover:text-slate-700 font-medium text-sm transition-colors"
@@ -123,6 +617,30 @@ const App: React.FC = () => {
                     Export CSV
                   </button>
 
+                  <button 
+                    onClick={() => generateWorkbook(reports, commissionConfig, session ? new Date(session.processedAt) : undefined)}
+                    className="flex items-center gap-2 bg-white hover:bg-slate-50 text-slate-700 border border-slate-200 px-4 py-2 rounded-lg transition-all shadow-sm hover:shadow text-sm font-medium"
+                  >
+                    <FileSpreadsheet className="w-4 h-4" />
+                    Export Excel
+                  </button>
+
+                  <button 
+                    onClick={() => setShowPayroll(true)}
+                    className="flex items-center gap-2 bg-white hover:bg-slate-50 text-slate-700 border border-slate-200 px-4 py-2 rounded-lg transition-all shadow-sm hover:shadow text-sm font-medium"
+                  >
+                    <Landmark className="w-4 h-4" />
+                    Payroll
+                  </button>
+
+                  <button 
+                    onClick={() => setShowPayslips(true)}
+                    className="flex items-center gap-2 bg-white hover:bg-slate-50 text-slate-700 border border-slate-200 px-4 py-2 rounded-lg transition-all shadow-sm hover:shadow text-sm font-medium"
+                  >
+                    <FileArchive className="w-4 h-4" />
+                    Payslips
+                  </button>
+
                   <button 
                     onClick={handleExport}
                     className="flex items-center gap-2 bg-slate-900 hover:bg-slate-800 text-white px-4 py-2 rounded-lg transition-all shadow-md hover:shadow-lg text-sm font-medium"
@@ -150,6 +668,11 @@ const App: React.FC = () => {
           </div>
         )}
 
+        {/* Parse Progress */}
+        {isLoading && (
+          <ParseProgressPanel progress={parseProgress} onCancel={() => parseAbort.current?.abort()} />
+        )}
+
         {/* --- Upload Phase --- */}
         {reports.length === 0 && (
           <div className="max-w-3xl mx-auto mt-12">
@@ -178,7 +701,7 @@ const App: React.FC = () => {
                 
                 <h3 className="text-lg font-semibold text-slate-900 mb-2">Rate Sheet</h3>
                 <p className="text-sm text-slate-500 mb-6 leading-relaxed">
-                  Upload <code className="bg-slate-100 px-1.5 py-0.5 rounded border border-slate-200 text-slate-600 font-mono text-xs">selected_columns.csv</code> containing Pickup, Drop, and Driver Rev_Rate.
+                  Upload a rate sheet CSV such as <code className="bg-slate-100 px-1.5 py-0.5 rounded border border-slate-200 text-slate-600 font-mono text-xs">selected_columns.csv</code>. New layouts are mapped to Pickup, Drop, and Driver Rate once.
                 </p>
 
                 <label className="block">
@@ -186,10 +709,22 @@ const App: React.FC = () => {
                   <div className={`w-full py-3 px-4 rounded-lg border border-dashed flex items-center justify-center gap-2 cursor-pointer transition-colors
                     ${rateData ? 'bg-emerald-50 border-emerald-200 text-emerald-700' : 'bg-slate-50 border-slate-300 text-slate-600 hover:bg-slate-100 hover:border-slate-400'}`}>
                     {rateData ? <FileCheck className="w-4 h-4" /> : <Upload className="w-4 h-4" />}
-                    <span className="text-sm font-medium">{rateData ? 'CSV Loaded' : 'Select CSV File'}</span>
+                    <span className="text-sm font-medium">
+                      {rateData ? `CSV Loaded (${Object.keys(rateData.rateMap).length} routes)` : 'Select CSV File'}
+                    </span>
                   </div>
                   <input type="file" accept=".csv" onChange={handleCSVUpload} className="hidden" />
                 </label>
+
+                {rateTable && (
+                  <button
+                    onClick={() => setShowMapping(true)}
+                    className="mt-3 w-full flex items-center justify-center gap-1.5 text-xs font-medium text-slate-500 hover:text-blue-600 transition-colors"
+                  >
+                    <Columns className="w-3.5 h-3.5" />
+                    {columnMapping ? 'Change column mapping & validity' : 'Map columns'}
+                  </button>
+                )}
               </div>
 
               {/* Step 2: PDF */}
@@ -206,7 +741,7 @@ const App: React.FC = () => {
 
                 <h3 className="text-lg font-semibold text-slate-900 mb-2">Driver Report</h3>
                 <p className="text-sm text-slate-500 mb-6 leading-relaxed">
-                  Upload the PDF summary. We'll match locations and recalculate rates automatically.
+                  Upload one or more PDF summaries. Drivers are merged by name. A trip already loaded from another PDF is skipped; other repeated DO numbers are flagged for review.
                 </p>
 
                 <label className={`block ${!rateData ? 'pointer-events-none' : ''}`}>
@@ -214,19 +749,31 @@ const App: React.FC = () => {
                   <div className={`w-full py-3 px-4 rounded-lg border border-dashed flex items-center justify-center gap-2 cursor-pointer transition-colors
                      ${!rateData ? 'bg-slate-50 border-slate-200 text-slate-400' : 'bg-slate-50 border-slate-300 text-slate-600 hover:bg-slate-100 hover:border-slate-400'}`}>
                     <Upload className="w-4 h-4" />
-                    <span className="text-sm font-medium">Select PDF File</span>
+                    <span className="text-sm font-medium">Select PDF Files</span>
                   </div>
-                  <input type="file" accept=".pdf" onChange={handlePDFUpload} disabled={!rateData} className="hidden" />
+                  <input type="file" accept=".pdf" multiple onChange={handlePDFUpload} disabled={!rateData} className="hidden" />
                 </label>
               </div>
             </div>
 
-            {isLoading && (
-              <div className="mt-12 flex flex-col items-center animate-in fade-in zoom-in duration-300">
-                <div className="w-12 h-12 border-4 border-blue-200 border-t-blue-600 rounded-full animate-spin mb-4"></div>
-                <p className="text-slate-600 font-medium">Processing trips...</p>
-              </div>
+            {rateValidation && (
+              <RateSheetValidationPanel
+                validation={rateValidation}
+                policy={conflictPolicy}
+                onPolicyChange={handleConflictPolicyChange}
+              />
             )}
+
+            {!isLoading && (
+              <SessionHistory
+                sessions={savedSessions}
+                onOpen={handleOpenSession}
+                onExport={handleExportSession}
+                onDelete={handleDeleteSession}
+                onImport={handleImportSession}
+              />
+            )}
+
           </div>
         )}
 
@@ -247,7 +794,11 @@ const App: React.FC = () => {
               <div className="bg-white p-4 rounded-xl border border-slate-200 shadow-sm">
                 <p className="text-slate-500 text-xs font-semibold uppercase tracking-wider mb-1">Exact Matches</p>
                 <div className="flex items-end justify-between">
-                  <span className="text-2xl font-bold text-emerald-600">{totalTrips - totalMismatches - totalFuzzy}</span>
+                  <span className="text-2xl font-bold text-emerald-600">
+                    {totalTrips - totalMismatches - totalFuzzy - totalManual - totalAlias}
+                    {totalAlias > 0 && <span className="text-xs font-medium text-indigo-500 ml-2">+{totalAlias} alias</span>}
+                    {totalManual > 0 && <span className="text-xs font-medium text-blue-500 ml-2">+{totalManual} manual</span>}
+                  </span>
                   <CheckCircle className="text-emerald-100 w-5 h-5 mb-1" />
                 </div>
               </div>
@@ -256,19 +807,83 @@ const App: React.FC = () => {
                 <p className="text-slate-500 text-xs font-semibold uppercase tracking-wider mb-1">AI Fuzzy Matches</p>
                 <div className="flex items-end justify-between">
                   <span className="text-2xl font-bold text-amber-500">{totalFuzzy}</span>
-                  <Search className="text-amber-100 w-5 h-5 mb-1" />
+                  {totalFuzzy > 0 ? (
+                    <button onClick={() => setShowReview(true)} className="text-xs font-medium text-amber-600 hover:text-amber-800 mb-1">
+                      Review →
+                    </button>
+                  ) : (
+                    <Search className="text-amber-100 w-5 h-5 mb-1" />
+                  )}
                 </div>
               </div>
 
               <div className="bg-white p-4 rounded-xl border border-slate-200 shadow-sm">
                 <p className="text-slate-500 text-xs font-semibold uppercase tracking-wider mb-1">Missing Rates</p>
                 <div className="flex items-end justify-between">
-                  <span className="text-2xl font-bold text-red-600">{totalMismatches}</span>
+                  <span className="text-2xl font-bold text-red-600">
+                    {totalMismatches}
+                    {totalOutsideWindow > 0 && <span className="text-xs font-medium text-orange-500 ml-2">+{totalOutsideWindow} outside rate window</span>}
+                  </span>
                   <AlertTriangle className="text-red-100 w-5 h-5 mb-1" />
                 </div>
               </div>
             </div>
 
+            {/* Session */}
+            {session && (
+              <div className="mb-4 flex flex-wrap items-center gap-3 text-xs text-slate-500">
+                <Save className="w-4 h-4 text-slate-400" />
+                <input
+                  value={session.name}
+                  onChange={(e) => setSession({ ...session, name: e.target.value })}
+                  aria-label="Session name"
+                  className="px-2 py-1 rounded border border-transparent hover:border-slate-200 focus:border-blue-400 focus:outline-none bg-transparent text-sm font-medium text-slate-800 w-64"
+                />
+                <span>Processed {new Date(session.processedAt).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' })} · saved in this browser</span>
+                <button
+                  onClick={handleExportCurrentSession}
+                  className="flex items-center gap-1 font-medium text-slate-500 hover:text-blue-600 transition-colors"
+                >
+                  <Download className="w-3.5 h-3.5" />
+                  Export Session
+                </button>
+              </div>
+            )}
+
+            {/* Source Files */}
+            {sourceFiles.length > 1 && (
+              <div className="mb-6 flex flex-wrap items-center gap-2 text-xs text-slate-500">
+                <span className="font-semibold uppercase tracking-wider">{sourceFiles.length} PDFs loaded:</span>
+                {sourceFiles.map(name => (
+                  <span key={name} className="px-2 py-0.5 rounded bg-white border border-slate-200 font-mono">{name}</span>
+                ))}
+                {skippedDuplicates > 0 && (
+                  <span className="ml-2 text-amber-600 font-medium">
+                    {skippedDuplicates} repeated trip{skippedDuplicates === 1 ? '' : 's'} skipped (see Diagnostics)
+                  </span>
+                )}
+              </div>
+            )}
+
+            {/* Draft Notice */}
+            {pendingReviews > 0 && (
+              <div className="mb-6 bg-amber-50 border border-amber-200 rounded-xl px-6 py-4 flex items-center justify-between shadow-sm">
+                <div className="flex items-center gap-2">
+                  <AlertTriangle className="text-amber-500 w-5 h-5" />
+                  <p className="text-sm text-amber-900">
+                    <span className="font-semibold">Draft:</span> {pendingReviews} fuzzy route mapping{pendingReviews === 1 ? '' : 's'} awaiting review. Exports are marked DRAFT until every mapping is accepted or rejected.
+                  </p>
+                </div>
+                <button 
+                  onClick={() => setShowReview(true)}
+                  className="flex items-center gap-2 bg-white hover:bg-amber-100 text-amber-800 px-3 py-1.5 rounded-lg border border-amber-300 text-xs font-medium transition-colors shadow-sm"
+                >
+                  <ListChecks className="w-3.5 h-3.5" />
+                  Review Matches
+                </button>
+              </div>
+            )}
+
             {/* Validation Panel */}
             {totalMismatches > 0 && (
               <div className="mb-6 bg-white border border-red-200 rounded-xl overflow-hidden shadow-sm">
@@ -288,7 +903,7 @@ const App: React.FC = () => {
 
                 </div>
                 <div className="p-6">
-                  <p className="text-sm text-slate-600 mb-3">The following routes were not found in your rate sheet. Calculations for these trips reverted to the original PDF rate.</p>
+                  <p className="text-sm text-slate-600 mb-3">The following routes were not found in your rate sheet. Calculations for these trips reverted to the original PDF rate. Enter a rate or pick a rate-sheet route against any of these trips in the table to apply it to every driver.</p>
                   <div className="flex flex-wrap gap-2">
                     {missingRoutes.map((route, idx) => (
                       <span key={idx} className="inline-flex items-center px-3 py-1.5 rounded-lg text-xs font-medium bg-slate-50 text-slate-700 border border-slate-200 shadow-sm font-mono">
@@ -300,13 +915,31 @@ const App: React.FC = () => {
               </div>
             )}
 
+            {/* Duplicates Panel */}
+            {doIssueGroups.length > 0 && (
+              <DuplicatesPanel
+                groups={doIssueGroups}
+                unresolved={unresolvedDoIssues}
+                onResolve={handleResolveDoIssue}
+                onSelectDriver={(index) => { setActiveDriverIndex(index); setActiveView('TRIPS'); }}
+              />
+            )}
+
             {/* Main Content Area */}
             <div className="flex flex-col lg:flex-row gap-6 h-[calc(100vh-280px)] min-h-[600px]">
-              
+              {sidebarMode === 'TRUCKS' ? (
+                <TruckView
+                  trucks={truckReports}
+                  toggle={sidebarToggle}
+                  onSelectDriver={openDriver}
+                  onExport={() => generateTruckCSV(reports)}
+                />
+              ) : (
+              <>
               {/* Sidebar: Driver List */}
               <div className="lg:w-80 bg-white rounded-xl border border-slate-200 shadow-sm overflow-hidden flex flex-col">
                 <div className="p-4 bg-slate-50 border-b border-slate-200 space-y-3">
-                  <h2 className="font-semibold text-slate-700">Drivers ({reports.length})</h2>
+                  {sidebarToggle}
                   
                   {/* Search Input */}
                   <div className="relative">
@@ -323,7 +956,7 @@ const App: React.FC = () => {
                 <div className="overflow-y-auto flex-1">
                   {reports
                     .map((report, idx) => ({ ...report, originalIndex: idx })) // Preserve original index
-                    .filter(item => item.driverName.toLowerCase().includes(driverSearchTerm.toLowerCase()))
+                    .filter(item => matchesDriverSearch(item, driverSearchTerm))
                     .map((item) => (
                       <button
                         key={item.originalIndex}
@@ -338,10 +971,30 @@ const App: React.FC = () => {
                           <div className="flex gap-1">
                             {item.mismatchedTrips > 0 && <span className="w-2 h-2 rounded-full bg-red-500 mt-1.5" />}
                             {item.fuzzyTrips > 0 && <span className="w-2 h-2 rounded-full bg-amber-400 mt-1.5" />}
+                            {item.transactions.some(t => t.doIssue && !t.doResolution) && (
+                              <span title="Trips with a repeated or malformed DO number await review" className="w-2 h-2 rounded-full bg-purple-500 mt-1.5" />
+                            )}
+                            {item.diagnostics.some(d => d.kind === 'UNPARSED_TRIP') && (
+                              <span title="Some trip-like lines could not be parsed" className="w-2 h-2 rounded-full bg-slate-400 mt-1.5" />
+                            )}
                           </div>
                         </div>
                         <div className="flex justify-between items-center text-xs text-slate-500">
-                          <span>{item.transactions.length} trips</span>
+                          <span className="flex items-center gap-2">
+                            {item.transactions.length} trips
+                            {item.employeeId && <span className="font-mono text-slate-400">{item.employeeId}</span>}
+                            {isUnknownDriver(item, driverMaster) && (
+                              <span title="Not in the driver master file" className="px-1.5 py-0.5 rounded text-[10px] font-medium bg-amber-100 text-amber-700">Unknown</span>
+                            )}
+                            {item.reconciliation.status === 'MATCHED' && (
+                              <span className="px-1.5 py-0.5 rounded text-[10px] font-medium bg-emerald-50 text-emerald-600">Totals OK</span>
+                            )}
+                            {item.reconciliation.status === 'MISMATCH' && (
+                              <span title={item.reconciliation.issues.join('\n')} className="px-1.5 py-0.5 rounded text-[10px] font-medium bg-red-100 text-red-700">
+                                Totals Mismatch
+                              </span>
+                            )}
+                          </span>
                           {activeDriverIndex === item.originalIndex && <ChevronRight className="w-4 h-4 text-blue-500" />}
                         </div>
                         
@@ -353,7 +1006,7 @@ const App: React.FC = () => {
                     ))}
                     
                     {/* Empty State for Search */}
-                    {reports.filter(r => r.driverName.toLowerCase().includes(driverSearchTerm.toLowerCase())).length === 0 && (
+                    {reports.filter(r => matchesDriverSearch(r, driverSearchTerm)).length === 0 && (
                       <div className="p-8 text-center text-slate-400">
                         <p className="text-sm">No drivers found.</p>
                       </div>
@@ -367,11 +1020,74 @@ const App: React.FC = () => {
                 <div className="p-6 border-b border-slate-200 flex justify-between items-end bg-slate-50/30">
                   <div>
                     <h2 className="text-2xl font-bold text-slate-900 mb-1">{reports[activeDriverIndex].driverName}</h2>
+                    {activePrintedNames.length > 0 && (
+                      <p className="text-xs text-slate-500 mb-1">Printed in the PDFs as {activePrintedNames.join(', ')}</p>
+                    )}
                     <div className="flex gap-4 text-sm text-slate-500">
                       <span className="flex items-center gap-1.5">
                         <Calendar className="w-4 h-4" />
                         Report generated today
                       </span>
+                      {reports[activeDriverIndex].employeeId && (
+                        <span className="flex items-center gap-1.5">
+                          <UserCheck className="w-4 h-4" />
+                          <span className="font-mono">{reports[activeDriverIndex].employeeId}</span>
+                        </span>
+                      )}
+                      {isUnknownDriver(reports[activeDriverIndex], driverMaster) && (
+                        <button onClick={() => setShowDrivers(true)} className="text-amber-600 hover:text-amber-700 font-medium">
+                          Not in the driver master file
+                        </button>
+                      )}
+                      {activeDefaultTruck && (
+                        <span className="flex items-center gap-1.5">
+                          <Truck className="w-4 h-4" />
+                          <span className="font-mono">{activeDefaultTruck}</span>
+                          {activeOtherTruckTrips > 0 && (
+                            <span className="text-amber-600">({activeOtherTruckTrips} trip{activeOtherTruckTrips === 1 ? '' : 's'} on other trucks)</span>
+                          )}
+                        </span>
+                      )}
+                      {reports[activeDriverIndex].reconciliation.status === 'NO_TOTALS' && (
+                        <span className="text-slate-400">No PDF totals found to check against</span>
+                      )}
+                    </div>
+                    {reports[activeDriverIndex].reconciliation.status === 'MISMATCH' && (
+                      <div className="mt-2 flex items-start gap-2 text-xs text-red-700 bg-red-50 border border-red-100 rounded-lg px-3 py-2">
+                        <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+                        <div>
+                          <p className="font-semibold">Parsed trips don't agree with the PDF's own totals</p>
+                          {reports[activeDriverIndex].reconciliation.issues.map(issue => <p key={issue}>{issue}</p>)}
+                        </div>
+                      </div>
+                    )}
+                    <div className="flex gap-1 mt-4">
+                      <button
+                        onClick={() => setActiveView('TRIPS')}
+                        className={`px-3 py-1.5 rounded-lg text-xs font-medium transition-colors
+                          ${activeView === 'TRIPS' ? 'bg-slate-900 text-white' : 'text-slate-500 hover:bg-slate-100'}`}
+                      >
+                        Trips ({reports[activeDriverIndex].transactions.length})
+                      </button>
+                      <button
+                        onClick={() => setActiveView('DIAGNOSTICS')}
+                        className={`px-3 py-1.5 rounded-lg text-xs font-medium transition-colors
+                          ${activeView === 'DIAGNOSTICS' ? 'bg-slate-900 text-white' : 'text-slate-500 hover:bg-slate-100'}`}
+                      >
+                        Diagnostics ({reports[activeDriverIndex].diagnostics.filter(d => d.kind !== 'IGNORED').length})
+                      </button>
+                      {activeView === 'TRIPS' && otCodes.length > 0 && (
+                        <select
+                          value={otFilter}
+                          onChange={(e) => setOtFilter(e.target.value)}
+                          className="ml-2 px-2 py-1 text-xs border border-slate-300 rounded-lg bg-white focus:ring-2 focus:ring-blue-500 outline-none"
+                        >
+                          <option value="ALL">All trips</option>
+                          <option value="ANY">Any OT</option>
+                          <option value="NONE">No OT</option>
+                          {otCodes.map(code => <option key={code} value={code}>OT: {code}</option>)}
+                        </select>
+                      )}
                     </div>
                   </div>
                   <div className="text-right">
@@ -395,8 +1111,18 @@ const App: React.FC = () => {
                   </div>
                 </div>
 
-                {/* Sticky Table */}
+                {activeView === 'DIAGNOSTICS' ? (
+                  <DiagnosticsPanel
+                    diagnostics={reports[activeDriverIndex].diagnostics}
+                    documentDiagnostics={documentDiagnostics}
+                    onExport={() => generateDiagnosticsCSV(reports, documentDiagnostics)}
+                  />
+                ) : (
+                /* Sticky Table */
                 <div className="flex-1 overflow-auto">
+                  <datalist id="rate-sheet-routes">
+                    {routeOptions.map(r => <option key={r} value={r} />)}
+                  </datalist>
                   <table className="w-full text-sm text-left border-collapse">
                     <thead className="text-xs text-slate-500 font-semibold uppercase bg-slate-50 sticky top-0 z-10 shadow-sm">
                       <tr>
@@ -409,19 +1135,38 @@ const App: React.FC = () => {
                         <th className="px-6 py-4 text-right">Old Comm</th>
                         <th className="px-6 py-4 text-right">New Comm</th>
                         <th className="px-6 py-4 text-right">Diff</th>
+                        <th className="px-6 py-4">OT</th>
                       </tr>
                     </thead>
                     <tbody className="divide-y divide-slate-100">
                       {reports[activeDriverIndex].transactions.map((t, i) => {
+                        if (otFilter === 'ANY' && !t.overtime) return null;
+                        if (otFilter === 'NONE' && t.overtime) return null;
+                        if (otFilter !== 'ALL' && otFilter !== 'ANY' && otFilter !== 'NONE' && t.overtime?.code !== otFilter) return null;
+
                         const isFuzzy = t.matchType === 'FUZZY';
+                        const isManual = t.matchType === 'MANUAL';
+                        const isAlias = t.matchType === 'ALIAS';
+                        const isAliasSaved = isFuzzy
+                          && (!t.matchedPickup || aliases[normalizeLocation(t.pickup)] === t.matchedPickup || normalizeLocation(t.pickup) === t.matchedPickup)
+                          && (!t.matchedDrop || aliases[normalizeLocation(t.drop)] === t.matchedDrop || normalizeLocation(t.drop) === t.matchedDrop);
                         const isError = t.matchType === 'NONE';
                         const isChanged = t.newComm !== t.originalComm;
+                        const isHeld = isHeldBack(t);
 
                         return (
                           <tr key={i} className={`group transition-colors hover:bg-slate-50 
-                            ${isError ? 'bg-red-50/30 hover:bg-red-50/60' : ''}`}>
+                            ${isError ? 'bg-red-50/30 hover:bg-red-50/60' : ''}
+                            ${isHeld ? 'opacity-60' : ''}`}>
                             
-                            <td className="px-6 py-3 font-mono text-slate-500 text-xs whitespace-nowrap">{t.date}</td>
+                            <td className="px-6 py-3 font-mono text-slate-500 text-xs whitespace-nowrap">
+                              {t.date}
+                              {t.sourceFile && (
+                                <span className="block text-[10px] text-slate-400 truncate max-w-[7rem]" title={`${t.sourceFile}, page ${t.sourcePage}`}>
+                                  {sourceFiles.length > 1 ? `${t.sourceFile} · ` : ''}p.{t.sourcePage}
+                                </span>
+                              )}
+                            </td>
                             <td className="px-6 py-3 font-medium text-slate-700">{t.truck}</td>
                             
                             <td className="px-6 py-3">
@@ -430,14 +1175,14 @@ const App: React.FC = () => {
                                   <div className="w-1.5 h-1.5 rounded-full bg-blue-400"></div>
                                   <span className={isError ? 'text-red-700 font-medium' : isFuzzy ? 'text-amber-700' : 'text-slate-700'}>
                                     {t.pickup}
-                                    {isFuzzy && t.matchedPickup && <span className="text-amber-500 text-xs ml-1 opacity-75">→ {t.matchedPickup}</span>}
+                                    {(isFuzzy || isManual || isAlias) && t.matchedPickup && <span className={`${isManual ? 'text-blue-500' : isAlias ? 'text-indigo-500' : 'text-amber-500'} text-xs ml-1 opacity-75`}>→ {t.matchedPickup}</span>}
                                   </span>
                                 </div>
                                 <div className="flex items-center gap-2">
                                   <div className="w-1.5 h-1.5 rounded-full bg-slate-300"></div>
                                   <span className={isError ? 'text-red-700 font-medium' : isFuzzy ? 'text-amber-700' : 'text-slate-700'}>
                                     {t.drop}
-                                    {isFuzzy && t.matchedDrop && <span className="text-amber-500 text-xs ml-1 opacity-75">→ {t.matchedDrop}</span>}
+                                    {(isFuzzy || isManual || isAlias) && t.matchedDrop && <span className={`${isManual ? 'text-blue-500' : isAlias ? 'text-indigo-500' : 'text-amber-500'} text-xs ml-1 opacity-75`}>→ {t.matchedDrop}</span>}
                                   </span>
                                 </div>
                               </div>
@@ -445,13 +1190,75 @@ const App: React.FC = () => {
                                 {isFuzzy && (
                                   <span className="inline-flex items-center px-1.5 py-0.5 rounded text-[10px] font-medium bg-amber-100 text-amber-700">
                                     AI Matched
+                                    {t.pickupScore !== undefined && t.dropScore !== undefined && (
+                                      <span className="ml-1 font-mono opacity-75" title={`Pickup ${Math.round(t.pickupScore * 100)}% / drop ${Math.round(t.dropScore * 100)}%`}>
+                                        {t.routeScore !== undefined ? `${Math.round(t.routeScore * 100)}%` : `${Math.round(t.pickupScore * 100)}% / ${Math.round(t.dropScore * 100)}%`}
+                                      </span>
+                                    )}
+                                    {t.reviewStatus === 'ACCEPTED' && <CheckCircle className="w-2.5 h-2.5 ml-1" />}
                                   </span>
                                 )}
-                                {isError && (
-                                  <span className="inline-flex items-center px-1.5 py-0.5 rounded text-[10px] font-medium bg-red-100 text-red-700">
-                                    Rate Missing
+                                {t.doIssue && (
+                                  <span
+                                    title={isHeld ? `DO ${t.doNumber || '(blank)'} is left out of totals until resolved in the Duplicates panel` : `DO ${t.doNumber} kept`}
+                                    className={`inline-flex items-center gap-1 mr-1 px-1.5 py-0.5 rounded text-[10px] font-medium ${DO_ISSUE_LABELS[t.doIssue].style}`}
+                                  >
+                                    {DO_ISSUE_LABELS[t.doIssue].label}
+                                    {t.doResolution === 'KEEP' && <CheckCircle className="w-2.5 h-2.5" />}
+                                    {t.doResolution === 'EXCLUDE' && <span className="opacity-75">· excluded</span>}
+                                    {!t.doResolution && <span className="opacity-75">· not counted</span>}
+                                  </span>
+                                )}
+                                {t.outsideRateWindow && (
+                                  <span
+                                    title="The route is in the rate sheet, but no rate version covers this trip date. The PDF commission was kept."
+                                    className="inline-flex items-center ml-1 px-1.5 py-0.5 rounded text-[10px] font-medium bg-orange-100 text-orange-700"
+                                  >
+                                    Outside Rate Window
                                   </span>
                                 )}
+                                {isFuzzy && !isAliasSaved && (
+                                  <button
+                                    onClick={() => handleSaveFuzzyAlias(t.pickup, t.drop, t.matchedPickup, t.matchedDrop)}
+                                    title="Confirm this match and save the spellings as aliases"
+                                    className="inline-flex items-center gap-1 ml-1 px-1.5 py-0.5 rounded text-[10px] font-medium text-slate-500 border border-slate-200 hover:bg-slate-100"
+                                  >
+                                    <BookmarkPlus className="w-2.5 h-2.5" />
+                                    Save Alias
+                                  </button>
+                                )}
+                                {isAlias && (
+                                  <span className="inline-flex items-center px-1.5 py-0.5 rounded text-[10px] font-medium bg-indigo-100 text-indigo-700">
+                                    Alias
+                                  </span>
+                                )}
+                                {isManual && (
+                                  <span className="inline-flex items-center gap-1 px-1.5 py-0.5 rounded text-[10px] font-medium bg-blue-100 text-blue-700">
+                                    Manual Rate
+                                    <button
+                                      onClick={() => handleClearResolution(t.pickup, t.drop)}
+                                      title="Undo for every trip on this route"
+                                      className="hover:text-blue-900"
+                                    >
+                                      <RotateCcw className="w-2.5 h-2.5" />
+                                    </button>
+                                  </span>
+                                )}
+                                {isError && (
+                                  <>
+                                    <span className="inline-flex items-center px-1.5 py-0.5 rounded text-[10px] font-medium bg-red-100 text-red-700">
+                                      Rate Missing
+                                    </span>
+                                    {t.reviewStatus === 'REJECTED' && (
+                                      <span className="ml-1 text-[10px] text-slate-400">fuzzy match rejected</span>
+                                    )}
+                                    <MissingRateEditor
+                                      routeOptions={routeOptions}
+                                      listId="rate-sheet-routes"
+                                      onResolve={(resolution) => handleResolveRoute(t.pickup, t.drop, resolution)}
+                                    />
+                                  </>
+                                )}
                               </div>
                             </td>
 
@@ -466,6 +1273,9 @@ const App: React.FC = () => {
                                 ${isError ? 'text-red-600' : isChanged ? 'text-emerald-600' : 'text-slate-700'}`}>
                                 {t.newEffRt.toFixed(2)}
                               </span>
+                              {t.rateVersion && (
+                                <div className="text-[10px] text-slate-400 whitespace-nowrap">{t.rateVersion}</div>
+                              )}
                             </td>
 
                             <td className="px-6 py-3 text-right font-mono text-slate-400 text-xs">
@@ -474,6 +1284,9 @@ const App: React.FC = () => {
 
                             <td className="px-6 py-3 text-right font-mono font-bold text-emerald-700">
                               {t.newComm.toFixed(2)}
+                              <div className="text-[10px] font-sans font-normal text-slate-400 whitespace-nowrap">
+                                {t.commissionRule ? (t.commissionRule !== STANDARD_RULE_NAME && t.commissionRule) : 'PDF commission'}
+                              </div>
                             </td>
 
                             <td className="px-6 py-3 text-right">
@@ -482,17 +1295,138 @@ const App: React.FC = () => {
                                 {t.diff > 0 ? '+' : ''}{t.diff.toFixed(2)}
                               </span>
                             </td>
+
+                            <td className="px-6 py-3 whitespace-nowrap">
+                              {t.overtime && (
+                                <span title={`Printed as "${t.ot}"`} className="inline-flex items-center px-1.5 py-0.5 rounded text-[10px] font-medium bg-sky-100 text-sky-700">
+                                  {t.overtime.code}{t.overtime.hours !== undefined && ` ${t.overtime.hours}h`}
+                                </span>
+                              )}
+                              {t.overtimeAmount !== undefined && (
+                                <div className="text-[10px] font-mono text-sky-600">
+                                  {t.overtimeAmount >= 0 ? '+' : ''}{t.overtimeAmount.toFixed(2)}
+                                </div>
+                              )}
+                            </td>
                           </tr>
                         );
                       })}
                     </tbody>
                   </table>
                 </div>
+                )}
               </div>
+              </>
+              )}
             </div>
           </div>
         )}
       </main>
+
+      {showMapping && rateTable && (
+        <ColumnMappingWizard
+          table={rateTable}
+          initialMapping={columnMapping || suggestColumnMapping(rateTable.headers)}
+          initialValidity={rateValidity}
+          policy={conflictPolicy}
+          onConfirm={(mapping, validity) => {
+            setShowMapping(false);
+            applyColumnMapping(rateTable, mapping, validity);
+          }}
+          onCancel={() => setShowMapping(false)}
+        />
+      )}
+
+      {showReview && rateData && (
+        <FuzzyReviewPanel
+          reports={reports}
+          rateData={rateData}
+          aliases={aliases}
+          onDecision={handleReviewDecision}
+          onClose={() => setShowReview(false)}
+        />
+      )}
+
+      {showAliases && (
+        <AliasManager
+          aliases={aliases}
+          locations={rateLocations}
+          fuzzySuggestions={fuzzyAliasSuggestions}
+          onChange={setAliases}
+          onClose={() => setShowAliases(false)}
+        />
+      )}
+
+      {showRules && (
+        <CommissionRulesEditor
+          config={commissionConfig}
+          locations={rateLocations}
+          otCodes={otCodes}
+          onApply={handleApplyRules}
+          onClose={() => setShowRules(false)}
+        />
+      )}
+
+      {showCompare && (
+        <CompareRunsPanel
+          reports={reports}
+          currentLabel={session?.name || 'Current run'}
+          currentSessionId={session?.id}
+          sessions={savedSessions}
+          aliases={aliases}
+          config={commissionConfig}
+          policy={conflictPolicy}
+          validity={rateValidity}
+          onClose={() => setShowCompare(false)}
+        />
+      )}
+
+      {showRateDiff && rateData && rateTable && (
+        <RateSheetDiffPanel
+          rateData={rateData}
+          currentSheet={rateTable.fileName}
+          reports={reports}
+          aliases={aliases}
+          config={commissionConfig}
+          policy={conflictPolicy}
+          validity={rateValidity}
+          onSwitch={handleSwitchRateSheet}
+          onClose={() => setShowRateDiff(false)}
+        />
+      )}
+
+      {showPayslips && (
+        <PayslipExportPanel
+          reports={reports}
+          initialSearch={driverSearchTerm}
+          processedAt={session ? new Date(session.processedAt) : undefined}
+          onClose={() => setShowPayslips(false)}
+        />
+      )}
+
+      {showDrivers && (
+        <DriverMasterPanel
+          master={driverMaster}
+          reports={reports}
+          onChange={handleDriverMasterChange}
+          onClose={() => setShowDrivers(false)}
+        />
+      )}
+
+      {showPayroll && (
+        <PayrollExportPanel
+          reports={reports}
+          onClose={() => setShowPayroll(false)}
+        />
+      )}
+
+      {showBenchmark && rateData && (
+        <MatchBenchmarkPanel
+          reports={reports}
+          rateData={rateData}
+          onClose={() => setShowBenchmark(false)}
+        />
+      )}
     </div>
   );
 };
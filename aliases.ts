@@ -0,0 +1,94 @@
+import Papa from 'papaparse';
+import { DriverReport, LocationAliasMap, downloadFile, normalizeLocation } from './utils';
+
+const STORAGE_KEY = 'incentiveCalc.locationAliases';
+
+// --- Persistence ---
+
+export const loadAliases = (): LocationAliasMap => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? sanitizeAliases(JSON.parse(stored)) : {};
+  } catch (err) {
+    console.error(err);
+    return {};
+  }
+};
+
+export const saveAliases = (aliases: LocationAliasMap) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(aliases));
+};
+
+// Drop anything that isn't a non-empty string pair and normalise both sides
+const sanitizeAliases = (raw: unknown): LocationAliasMap => {
+  const aliases: LocationAliasMap = {};
+  if (!raw || typeof raw !== 'object') return aliases;
+
+  Object.entries(raw as Record<string, unknown>).forEach(([spelling, canonical]) => {
+    if (typeof canonical !== 'string') return;
+    const from = normalizeLocation(spelling);
+    const to = normalizeLocation(canonical);
+    if (from && to && from !== to) {
+      aliases[from] = to;
+    }
+  });
+  return aliases;
+};
+
+// --- Growing the dictionary ---
+
+// Collect the pickup/drop spellings whose accepted fuzzy match is a different rate-sheet location.
+// Pending guesses are left out: as aliases they would skip the review queue on the next parse.
+export const aliasesFromFuzzyMatches = (reports: DriverReport[]): LocationAliasMap => {
+  const aliases: LocationAliasMap = {};
+
+  reports.forEach(r => {
+    r.transactions.forEach(t => {
+      if (t.matchType !== 'FUZZY' || t.reviewStatus !== 'ACCEPTED') return;
+      if (t.matchedPickup && normalizeLocation(t.pickup) !== t.matchedPickup) {
+        aliases[normalizeLocation(t.pickup)] = t.matchedPickup;
+      }
+      if (t.matchedDrop && normalizeLocation(t.drop) !== t.matchedDrop) {
+        aliases[normalizeLocation(t.drop)] = t.matchedDrop;
+      }
+    });
+  });
+  return aliases;
+};
+
+// --- Import / Export ---
+
+export const parseAliasFile = (file: File): Promise<LocationAliasMap> => {
+  if (file.name.toLowerCase().endsWith('.json')) {
+    return file.text().then(text => sanitizeAliases(JSON.parse(text)));
+  }
+
+  return new Promise((resolve, reject) => {
+    Papa.parse(file, {
+      header: true,
+      skipEmptyLines: true,
+      complete: (results: any) => {
+        const raw: Record<string, string> = {};
+        results.data.forEach((row: any) => {
+          const spelling = row['Alias'] ?? row['alias'];
+          const canonical = row['Canonical'] ?? row['canonical'];
+          if (spelling && canonical) {
+            raw[spelling] = canonical;
+          }
+        });
+        resolve(sanitizeAliases(raw));
+      },
+      error: (err: any) => reject(err),
+    });
+  });
+};
+
+export const exportAliasesJSON = (aliases: LocationAliasMap) => {
+  downloadFile(JSON.stringify(aliases, null, 2), 'location_aliases.json', 'application/json');
+};
+
+export const exportAliasesCSV = (aliases: LocationAliasMap) => {
+  const data = Object.entries(aliases).sort(([a], [b]) => a.localeCompare(b));
+  const csv = Papa.unparse({ fields: ['Alias', 'Canonical'], data });
+  downloadFile(csv, 'location_aliases.csv', 'text/csv;charset=utf-8;');
+};
@@ -0,0 +1,94 @@
+import { CommissionConfig, CommissionRule, OvertimeRule, RoundingMode, downloadFile, normalizeLocation } from './utils';
+
+const STORAGE_KEY = 'incentiveCalc.commissionRules';
+
+const ROUNDING_MODES: RoundingMode[] = ['NONE', 'NEAREST', 'UP', 'DOWN'];
+
+export const newRuleId = (): string => `rule-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`;
+
+// --- Persistence ---
+
+export const loadCommissionConfig = (): CommissionConfig => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return sanitizeConfig(stored ? JSON.parse(stored) : {});
+  } catch (err) {
+    console.error(err);
+    return sanitizeConfig({});
+  }
+};
+
+export const saveCommissionConfig = (config: CommissionConfig) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(config));
+};
+
+const text = (value: unknown): string | undefined =>
+  typeof value === 'string' && value.trim() ? value.trim() : undefined;
+
+const amount = (value: unknown): number | undefined => {
+  const n = typeof value === 'string' && value.trim() ? Number(value) : value;
+  return typeof n === 'number' && isFinite(n) ? n : undefined;
+};
+
+// Keep only the fields a rule understands; anything without a name is dropped
+const sanitizeRules = (list: unknown): CommissionRule[] => {
+  if (!Array.isArray(list)) return [];
+
+  return list.flatMap((item): CommissionRule[] => {
+    if (!item || typeof item !== 'object') return [];
+    const r = item as Record<string, unknown>;
+    const name = text(r.name);
+    if (!name) return [];
+    const divisor = amount(r.divisor);
+    return [{
+      id: text(r.id) || newRuleId(),
+      name,
+      pickup: text(r.pickup),
+      drop: text(r.drop),
+      truck: text(r.truck),
+      customer: text(r.customer),
+      divisor: divisor && divisor > 0 ? divisor : undefined,
+      minWeight: amount(r.minWeight),
+      flatAmount: amount(r.flatAmount),
+      bonus: amount(r.bonus),
+      rounding: ROUNDING_MODES.includes(r.rounding as RoundingMode) ? r.rounding as RoundingMode : undefined,
+      roundTo: amount(r.roundTo),
+      cap: amount(r.cap)
+    }];
+  });
+};
+
+// One rule per OT code; later duplicates win
+const sanitizeOvertime = (list: unknown): OvertimeRule[] => {
+  if (!Array.isArray(list)) return [];
+  const byCode = new Map<string, OvertimeRule>();
+
+  list.forEach(item => {
+    if (!item || typeof item !== 'object') return;
+    const r = item as Record<string, unknown>;
+    const code = typeof r.code === 'string' ? normalizeLocation(r.code) : '';
+    if (!code) return;
+    byCode.set(code, { code, multiplier: amount(r.multiplier), addOn: amount(r.addOn), perHour: r.perHour === true || undefined });
+  });
+  return Array.from(byCode.values());
+};
+
+// Accepts { rules, overtime } or a bare array of commission rules
+const sanitizeConfig = (raw: unknown): CommissionConfig => {
+  if (Array.isArray(raw)) return { rules: sanitizeRules(raw), overtime: [] };
+  const config = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+  return { rules: sanitizeRules(config.rules), overtime: sanitizeOvertime(config.overtime) };
+};
+
+// --- Import / Export ---
+
+export const parseRulesFile = (file: File): Promise<CommissionConfig> =>
+  file.text().then(content => {
+    const config = sanitizeConfig(JSON.parse(content));
+    if (config.rules.length === 0 && config.overtime.length === 0) throw new Error('No rules found in file');
+    return config;
+  });
+
+export const exportRulesJSON = (config: CommissionConfig) => {
+  downloadFile(JSON.stringify(config, null, 2), 'commission_rules.json', 'application/json');
+};
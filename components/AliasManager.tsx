@@ -0,0 +1,178 @@
+import React, { useMemo, useState } from 'react';
+import { BookOpen, Download, Plus, Search, Trash2, Upload, XCircle } from 'lucide-react';
+import { LocationAliasMap, normalizeLocation } from '../utils';
+import { exportAliasesCSV, exportAliasesJSON, parseAliasFile } from '../aliases';
+
+interface AliasManagerProps {
+  aliases: LocationAliasMap;
+  locations: string[];                  // Canonical rate-sheet locations (empty until a sheet is loaded)
+  fuzzySuggestions: LocationAliasMap;   // Mappings from the current run's accepted fuzzy matches
+  onChange: (aliases: LocationAliasMap) => void;
+  onClose: () => void;
+}
+
+const AliasManager: React.FC<AliasManagerProps> = ({ aliases, locations, fuzzySuggestions, onChange, onClose }) => {
+  const [search, setSearch] = useState('');
+  const [newSpelling, setNewSpelling] = useState('');
+  const [newCanonical, setNewCanonical] = useState('');
+  const [importError, setImportError] = useState<string | null>(null);
+
+  const entries = useMemo(() => {
+    const term = search.toUpperCase();
+    return Object.entries(aliases)
+      .filter(([spelling, canonical]) => spelling.includes(term) || canonical.includes(term))
+      .sort(([a], [b]) => a.localeCompare(b));
+  }, [aliases, search]);
+
+  const pendingSuggestions = Object.entries(fuzzySuggestions).filter(([spelling]) => !aliases[spelling]);
+
+  const addAlias = () => {
+    const spelling = normalizeLocation(newSpelling);
+    const canonical = normalizeLocation(newCanonical);
+    if (!spelling || !canonical || spelling === canonical) return;
+    onChange({ ...aliases, [spelling]: canonical });
+    setNewSpelling('');
+    setNewCanonical('');
+  };
+
+  const removeAlias = (spelling: string) => {
+    const next = { ...aliases };
+    delete next[spelling];
+    onChange(next);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files && e.target.files[0]) {
+      setImportError(null);
+      try {
+        const imported = await parseAliasFile(e.target.files[0]);
+        onChange({ ...aliases, ...imported });
+      } catch (err) {
+        console.error(err);
+        setImportError("Failed to import aliases. Use a JSON object or a CSV with Alias and Canonical columns.");
+      }
+      e.target.value = '';
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-30 bg-slate-900/40 flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-2xl max-h-[85vh] flex flex-col overflow-hidden">
+        <div className="px-6 py-4 border-b border-slate-200 flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <BookOpen className="text-blue-600 w-5 h-5" />
+            <h3 className="font-semibold text-slate-900">Location Aliases ({Object.keys(aliases).length})</h3>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+            <XCircle className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4 overflow-y-auto">
+          <p className="text-sm text-slate-500">
+            Aliases map a PDF spelling to a rate-sheet location. They are checked after the exact lookup and before fuzzy matching, and are kept in this browser.
+          </p>
+
+          {/* Add */}
+          <div className="flex gap-2">
+            <input
+              type="text"
+              placeholder="PDF spelling"
+              value={newSpelling}
+              onChange={(e) => setNewSpelling(e.target.value)}
+              className="flex-1 px-3 py-2 text-sm border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+            />
+            <input
+              type="text"
+              list="alias-locations"
+              placeholder="Rate-sheet location"
+              value={newCanonical}
+              onChange={(e) => setNewCanonical(e.target.value)}
+              onKeyDown={(e) => { if (e.key === 'Enter') addAlias(); }}
+              className="flex-1 px-3 py-2 text-sm border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+            />
+            <datalist id="alias-locations">
+              {locations.map(l => <option key={l} value={l} />)}
+            </datalist>
+            <button
+              onClick={addAlias}
+              className="flex items-center gap-1 bg-blue-600 hover:bg-blue-700 text-white px-3 py-2 rounded-lg text-sm font-medium"
+            >
+              <Plus className="w-4 h-4" />
+              Add
+            </button>
+          </div>
+
+          {/* Suggestions from fuzzy matches */}
+          {pendingSuggestions.length > 0 && (
+            <div className="bg-amber-50 border border-amber-200 rounded-lg p-3 flex items-center justify-between">
+              <span className="text-sm text-amber-800">
+                {pendingSuggestions.length} spelling{pendingSuggestions.length === 1 ? '' : 's'} from this run's accepted fuzzy matches are not in the dictionary.
+              </span>
+              <button
+                onClick={() => onChange({ ...aliases, ...Object.fromEntries(pendingSuggestions) })}
+                className="bg-white hover:bg-amber-100 text-amber-800 border border-amber-300 px-3 py-1.5 rounded-lg text-xs font-medium"
+              >
+                Add All
+              </button>
+            </div>
+          )}
+
+          {/* List */}
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400" />
+            <input
+              type="text"
+              placeholder="Search aliases..."
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              className="w-full pl-9 pr-3 py-2 text-sm border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+            />
+          </div>
+
+          <div className="border border-slate-200 rounded-lg divide-y divide-slate-100">
+            {entries.map(([spelling, canonical]) => (
+              <div key={spelling} className="flex items-center justify-between px-4 py-2 text-sm">
+                <span className="font-mono text-slate-700">
+                  {spelling} <span className="text-slate-400">→</span> <span className="text-blue-700">{canonical}</span>
+                </span>
+                <button onClick={() => removeAlias(spelling)} className="text-slate-400 hover:text-red-600">
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+            {entries.length === 0 && (
+              <div className="p-6 text-center text-slate-400 text-sm">No aliases yet.</div>
+            )}
+          </div>
+
+          {importError && <p className="text-sm text-red-600">{importError}</p>}
+        </div>
+
+        <div className="px-6 py-4 border-t border-slate-200 bg-slate-50 flex justify-end gap-2">
+          <label className="flex items-center gap-2 bg-white hover:bg-slate-50 text-slate-700 border border-slate-200 px-3 py-1.5 rounded-lg text-xs font-medium cursor-pointer">
+            <Upload className="w-3.5 h-3.5" />
+            Import JSON/CSV
+            <input type="file" accept=".json,.csv" onChange={handleImport} className="hidden" />
+          </label>
+          <button
+            onClick={() => exportAliasesJSON(aliases)}
+            className="flex items-center gap-2 bg-white hover:bg-slate-50 text-slate-700 border border-slate-200 px-3 py-1.5 rounded-lg text-xs font-medium"
+          >
+            <Download className="w-3.5 h-3.5" />
+            Export JSON
+          </button>
+          <button
+            onClick={() => exportAliasesCSV(aliases)}
+            className="flex items-center gap-2 bg-white hover:bg-slate-50 text-slate-700 border border-slate-200 px-3 py-1.5 rounded-lg text-xs font-medium"
+          >
+            <Download className="w-3.5 h-3.5" />
+            Export CSV
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AliasManager;
@@ -0,0 +1,171 @@
+import React, { useMemo, useState } from 'react';
+import { Columns, XCircle } from 'lucide-react';
+import { ColumnMapping, ConflictPolicy, RateSheetTable, RateSheetValidity, buildRateData } from '../utils';
+
+interface ColumnMappingWizardProps {
+  table: RateSheetTable;
+  initialMapping: Partial<ColumnMapping>;
+  initialValidity: RateSheetValidity;
+  policy: ConflictPolicy;              // Duplicate-route policy the sheet will be built with
+  onConfirm: (mapping: ColumnMapping, validity: RateSheetValidity) => void;
+  onCancel: () => void;
+}
+
+const FIELDS: { key: keyof ColumnMapping; label: string }[] = [
+  { key: 'pickup', label: 'Pickup location' },
+  { key: 'drop', label: 'Drop location' },
+  { key: 'rate', label: 'Driver rate' }
+];
+
+const OPTIONAL_FIELDS: { key: keyof ColumnMapping; label: string }[] = [
+  { key: 'effectiveFrom', label: 'Effective from (optional)' },
+  { key: 'effectiveTo', label: 'Effective to (optional)' }
+];
+
+const PREVIEW_ROWS = 5;
+
+const ColumnMappingWizard: React.FC<ColumnMappingWizardProps> = ({ table, initialMapping, initialValidity, policy, onConfirm, onCancel }) => {
+  const [mapping, setMapping] = useState<Partial<ColumnMapping>>(initialMapping);
+  const [validity, setValidity] = useState<RateSheetValidity>(initialValidity);
+
+  const isComplete = FIELDS.every(f => mapping[f.key]);
+
+  // Dry run so the user sees how many routes the mapping yields before confirming
+  const { routeCount, buildError } = useMemo(() => {
+    if (!isComplete) return { routeCount: 0, buildError: null };
+    try {
+      const data = buildRateData(table, mapping as ColumnMapping, validity, policy);
+      return { routeCount: Object.keys(data.rateMap).length, buildError: null };
+    } catch (err) {
+      return { routeCount: 0, buildError: err instanceof Error ? err.message : String(err) };
+    }
+  }, [table, mapping, validity, policy, isComplete]);
+
+  const mappedField = (header: string) => [...FIELDS, ...OPTIONAL_FIELDS].find(f => mapping[f.key] === header);
+
+  return (
+    <div className="fixed inset-0 z-30 bg-slate-900/40 flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-4xl max-h-[85vh] flex flex-col overflow-hidden">
+        <div className="px-6 py-4 border-b border-slate-200 flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <Columns className="text-blue-600 w-5 h-5" />
+            <h3 className="font-semibold text-slate-900">Map Rate Sheet Columns</h3>
+            <span className="text-sm text-slate-500 font-mono">{table.fileName}</span>
+          </div>
+          <button onClick={onCancel} className="text-slate-400 hover:text-slate-600">
+            <XCircle className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6 overflow-y-auto">
+          <p className="text-sm text-slate-500">
+            We found {table.headers.length} columns and {table.rows.length} rows. Choose which columns hold each field. The mapping is remembered for sheets with the same headers.
+          </p>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            {FIELDS.map(f => (
+              <label key={f.key} className="block">
+                <span className="text-xs font-semibold uppercase tracking-wider text-slate-500">{f.label}</span>
+                <select
+                  value={mapping[f.key] || ''}
+                  onChange={(e) => setMapping({ ...mapping, [f.key]: e.target.value || undefined })}
+                  className="mt-1 w-full px-3 py-2 text-sm border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none bg-white"
+                >
+                  <option value="">Select column...</option>
+                  {table.headers.map(h => <option key={h} value={h}>{h}</option>)}
+                </select>
+              </label>
+            ))}
+          </div>
+
+          {/* Effective dates: per-row columns, with sheet-wide dates for rows that have none */}
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            {OPTIONAL_FIELDS.map(f => (
+              <label key={f.key} className="block">
+                <span className="text-xs font-semibold uppercase tracking-wider text-slate-500">{f.label}</span>
+                <select
+                  value={mapping[f.key] || ''}
+                  onChange={(e) => setMapping({ ...mapping, [f.key]: e.target.value || undefined })}
+                  className="mt-1 w-full px-3 py-2 text-sm border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none bg-white"
+                >
+                  <option value="">None</option>
+                  {table.headers.map(h => <option key={h} value={h}>{h}</option>)}
+                </select>
+              </label>
+            ))}
+            <label className="block">
+              <span className="text-xs font-semibold uppercase tracking-wider text-slate-500">Sheet valid from</span>
+              <input
+                type="date"
+                value={validity.from || ''}
+                onChange={(e) => setValidity({ ...validity, from: e.target.value || undefined })}
+                className="mt-1 w-full px-3 py-2 text-sm border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+              />
+            </label>
+            <label className="block">
+              <span className="text-xs font-semibold uppercase tracking-wider text-slate-500">Sheet valid to</span>
+              <input
+                type="date"
+                value={validity.to || ''}
+                onChange={(e) => setValidity({ ...validity, to: e.target.value || undefined })}
+                className="mt-1 w-full px-3 py-2 text-sm border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+              />
+            </label>
+          </div>
+
+          {/* Preview */}
+          <div className="border border-slate-200 rounded-lg overflow-x-auto">
+            <table className="w-full text-xs text-left">
+              <thead className="bg-slate-50 text-slate-500 uppercase">
+                <tr>
+                  {table.headers.map(h => {
+                    const field = mappedField(h);
+                    return (
+                      <th key={h} className={`px-3 py-2 whitespace-nowrap ${field ? 'bg-blue-50 text-blue-700' : ''}`}>
+                        {h}
+                        {field && <span className="block text-[10px] normal-case font-medium">{field.label}</span>}
+                      </th>
+                    );
+                  })}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {table.rows.slice(0, PREVIEW_ROWS).map((row, i) => (
+                  <tr key={i}>
+                    {table.headers.map(h => (
+                      <td key={h} className={`px-3 py-2 font-mono whitespace-nowrap ${mappedField(h) ? 'bg-blue-50/40 text-slate-800' : 'text-slate-500'}`}>
+                        {row[h]}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {buildError && <p className="text-sm text-red-600">{buildError}</p>}
+        </div>
+
+        <div className="px-6 py-4 border-t border-slate-200 bg-slate-50 flex items-center justify-between">
+          <span className="text-sm text-slate-500">
+            {isComplete && !buildError ? `${routeCount} routes will be loaded.` : 'Map all three columns to continue.'}
+          </span>
+          <div className="flex gap-2">
+            <button onClick={onCancel} className="text-slate-500 hover:text-slate-700 font-medium text-sm px-3">
+              Cancel
+            </button>
+            <button
+              onClick={() => onConfirm(mapping as ColumnMapping, validity)}
+              disabled={!isComplete || !!buildError}
+              className="bg-blue-600 hover:bg-blue-700 disabled:opacity-40 text-white px-4 py-2 rounded-lg text-sm font-medium"
+            >
+              Use Mapping
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ColumnMappingWizard;
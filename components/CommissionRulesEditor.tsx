@@ -0,0 +1,325 @@
+import React, { useState } from 'react';
+import { ArrowDown, ArrowUp, Calculator, Download, Plus, Trash2, Upload, XCircle } from 'lucide-react';
+import { CommissionConfig, CommissionRule, OvertimeRule, RoundingMode, normalizeLocation } from '../utils';
+import { exportRulesJSON, newRuleId, parseRulesFile } from '../commissionRules';
+
+interface CommissionRulesEditorProps {
+  config: CommissionConfig;
+  locations: string[];   // Rate-sheet locations for the pickup/drop suggestions
+  otCodes: string[];     // OT codes seen in the loaded trips
+  onApply: (config: CommissionConfig) => void;
+  onClose: () => void;
+}
+
+type TextField = 'name' | 'pickup' | 'drop' | 'truck' | 'customer';
+type NumberField = 'divisor' | 'minWeight' | 'flatAmount' | 'bonus' | 'roundTo' | 'cap';
+
+const CRITERIA: { key: TextField; label: string; list?: boolean }[] = [
+  { key: 'pickup', label: 'Pickup', list: true },
+  { key: 'drop', label: 'Drop', list: true },
+  { key: 'truck', label: 'Truck' },
+  { key: 'customer', label: 'Customer' }
+];
+
+const AMOUNTS: { key: NumberField; label: string; placeholder: string }[] = [
+  { key: 'divisor', label: 'Divisor', placeholder: '10' },
+  { key: 'minWeight', label: 'Min weight', placeholder: '—' },
+  { key: 'flatAmount', label: 'Flat per trip', placeholder: '—' },
+  { key: 'bonus', label: 'Bonus per trip', placeholder: '0' },
+  { key: 'cap', label: 'Cap per trip', placeholder: '—' }
+];
+
+const inputClass = 'w-full px-2 py-1.5 text-sm border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none';
+
+const CommissionRulesEditor: React.FC<CommissionRulesEditorProps> = ({ config, locations, otCodes, onApply, onClose }) => {
+  // Edits stay local until applied, so trips are only re-priced once
+  const [draft, setDraft] = useState<CommissionRule[]>(config.rules);
+  const [overtime, setOvertime] = useState<OvertimeRule[]>(config.overtime);
+  const [newCode, setNewCode] = useState('');
+  const [importError, setImportError] = useState<string | null>(null);
+
+  const updateOvertime = (index: number, changes: Partial<OvertimeRule>) => {
+    setOvertime(overtime.map((rule, i) => (i === index ? { ...rule, ...changes } : rule)));
+  };
+
+  const addOvertime = () => {
+    const code = normalizeLocation(newCode);
+    if (!code || overtime.some(r => r.code === code)) return;
+    setOvertime([...overtime, { code, multiplier: 1 }]);
+    setNewCode('');
+  };
+
+  const unusedCodes = otCodes.filter(code => !overtime.some(r => r.code === code));
+
+  const update = (index: number, changes: Partial<CommissionRule>) => {
+    setDraft(draft.map((rule, i) => (i === index ? { ...rule, ...changes } : rule)));
+  };
+
+  const setText = (index: number, key: TextField, value: string) => {
+    update(index, { [key]: key === 'name' ? value : value || undefined });
+  };
+
+  const setNumber = (index: number, key: NumberField, value: string) => {
+    update(index, { [key]: value === '' || isNaN(Number(value)) ? undefined : Number(value) });
+  };
+
+  const move = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= draft.length) return;
+    const next = [...draft];
+    [next[index], next[target]] = [next[target], next[index]];
+    setDraft(next);
+  };
+
+  const addRule = () => {
+    setDraft([...draft, { id: newRuleId(), name: `Rule ${draft.length + 1}` }]);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files && e.target.files[0]) {
+      setImportError(null);
+      try {
+        const imported = await parseRulesFile(e.target.files[0]);
+        setDraft(imported.rules);
+        setOvertime(imported.overtime);
+      } catch (err) {
+        console.error(err);
+        setImportError("Failed to import rules. Use a JSON object with \"rules\" and/or \"overtime\" arrays.");
+      }
+      e.target.value = '';
+    }
+  };
+
+  const unnamed = draft.some(rule => !rule.name.trim());
+
+  return (
+    <div className="fixed inset-0 z-30 bg-slate-900/40 flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-4xl max-h-[85vh] flex flex-col overflow-hidden">
+        <div className="px-6 py-4 border-b border-slate-200 flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <Calculator className="text-blue-600 w-5 h-5" />
+            <h3 className="font-semibold text-slate-900">Commission Rules ({draft.length})</h3>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+            <XCircle className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4 overflow-y-auto">
+          <p className="text-sm text-slate-500">
+            Each trip uses the first rule whose criteria all match; blank criteria match anything. Trips no rule selects use the standard weight × rate ÷ 10.
+            Unmatched routes keep the PDF commission unless a flat-rate rule covers them.
+          </p>
+
+          <datalist id="rule-locations">
+            {locations.map(l => <option key={l} value={l} />)}
+          </datalist>
+
+          {draft.map((rule, index) => (
+            <div key={rule.id} className="border border-slate-200 rounded-lg">
+              <div className="px-4 py-2 bg-slate-50 border-b border-slate-100 flex items-center gap-2">
+                <span className="text-xs font-mono text-slate-400 w-6">{index + 1}.</span>
+                <input
+                  type="text"
+                  value={rule.name}
+                  onChange={(e) => setText(index, 'name', e.target.value)}
+                  className={`flex-1 font-medium ${inputClass} ${!rule.name.trim() ? 'border-red-400 bg-red-50' : ''}`}
+                />
+                <button onClick={() => move(index, -1)} disabled={index === 0} className="p-1 text-slate-400 hover:text-slate-600 disabled:opacity-30">
+                  <ArrowUp className="w-4 h-4" />
+                </button>
+                <button onClick={() => move(index, 1)} disabled={index === draft.length - 1} className="p-1 text-slate-400 hover:text-slate-600 disabled:opacity-30">
+                  <ArrowDown className="w-4 h-4" />
+                </button>
+                <button onClick={() => setDraft(draft.filter((_, i) => i !== index))} className="p-1 text-slate-400 hover:text-red-600">
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+
+              <div className="p-4 space-y-3">
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                  {CRITERIA.map(f => (
+                    <label key={f.key} className="block">
+                      <span className="text-[10px] font-semibold uppercase tracking-wider text-slate-500">{f.label}</span>
+                      <input
+                        type="text"
+                        list={f.list ? 'rule-locations' : undefined}
+                        placeholder="Any"
+                        value={rule[f.key] || ''}
+                        onChange={(e) => setText(index, f.key, e.target.value)}
+                        className={inputClass}
+                      />
+                    </label>
+                  ))}
+                </div>
+
+                <div className="grid grid-cols-2 md:grid-cols-7 gap-3">
+                  {AMOUNTS.map(f => (
+                    <label key={f.key} className="block">
+                      <span className="text-[10px] font-semibold uppercase tracking-wider text-slate-500">{f.label}</span>
+                      <input
+                        type="number"
+                        step="any"
+                        placeholder={f.placeholder}
+                        value={rule[f.key] ?? ''}
+                        onChange={(e) => setNumber(index, f.key, e.target.value)}
+                        className={`${inputClass} font-mono`}
+                      />
+                    </label>
+                  ))}
+                  <label className="block">
+                    <span className="text-[10px] font-semibold uppercase tracking-wider text-slate-500">Rounding</span>
+                    <select
+                      value={rule.rounding || 'NONE'}
+                      onChange={(e) => update(index, { rounding: e.target.value === 'NONE' ? undefined : e.target.value as RoundingMode })}
+                      className={`${inputClass} bg-white`}
+                    >
+                      <option value="NONE">None</option>
+                      <option value="NEAREST">Nearest</option>
+                      <option value="UP">Up</option>
+                      <option value="DOWN">Down</option>
+                    </select>
+                  </label>
+                  <label className="block">
+                    <span className="text-[10px] font-semibold uppercase tracking-wider text-slate-500">Round to</span>
+                    <input
+                      type="number"
+                      step="any"
+                      placeholder="1"
+                      disabled={!rule.rounding}
+                      value={rule.roundTo ?? ''}
+                      onChange={(e) => setNumber(index, 'roundTo', e.target.value)}
+                      className={`${inputClass} font-mono disabled:bg-slate-50`}
+                    />
+                  </label>
+                </div>
+              </div>
+            </div>
+          ))}
+
+          {draft.length === 0 && (
+            <div className="p-6 text-center text-slate-400 text-sm border border-dashed border-slate-200 rounded-lg">
+              No rules yet. Every trip uses the standard formula.
+            </div>
+          )}
+
+          <button
+            onClick={addRule}
+            className="flex items-center gap-1 text-blue-600 hover:text-blue-800 text-sm font-medium"
+          >
+            <Plus className="w-4 h-4" />
+            Add Rule
+          </button>
+
+          {/* OT incentives */}
+          <div className="pt-4 border-t border-slate-200 space-y-3">
+            <div>
+              <h4 className="font-semibold text-slate-900 text-sm">OT Incentives</h4>
+              <p className="text-sm text-slate-500">
+                Applied on top of the rule's commission for trips whose OT column carries the code. The add-on can be paid per OT hour where the PDF gives hours.
+              </p>
+            </div>
+
+            {overtime.length > 0 && (
+              <div className="border border-slate-200 rounded-lg divide-y divide-slate-100">
+                {overtime.map((rule, index) => (
+                  <div key={rule.code} className="px-4 py-2 flex items-center gap-4 text-sm">
+                    <span className="w-24 font-mono font-medium text-slate-700">{rule.code}</span>
+                    <label className="flex items-center gap-2 text-xs text-slate-500">
+                      ×
+                      <input
+                        type="number"
+                        step="any"
+                        placeholder="1"
+                        value={rule.multiplier ?? ''}
+                        onChange={(e) => updateOvertime(index, { multiplier: e.target.value === '' ? undefined : Number(e.target.value) })}
+                        className={`w-20 ${inputClass} font-mono`}
+                      />
+                    </label>
+                    <label className="flex items-center gap-2 text-xs text-slate-500">
+                      +
+                      <input
+                        type="number"
+                        step="any"
+                        placeholder="0"
+                        value={rule.addOn ?? ''}
+                        onChange={(e) => updateOvertime(index, { addOn: e.target.value === '' ? undefined : Number(e.target.value) })}
+                        className={`w-24 ${inputClass} font-mono`}
+                      />
+                    </label>
+                    <label className="flex items-center gap-1.5 text-xs text-slate-500">
+                      <input
+                        type="checkbox"
+                        checked={!!rule.perHour}
+                        onChange={(e) => updateOvertime(index, { perHour: e.target.checked || undefined })}
+                      />
+                      per hour
+                    </label>
+                    <button onClick={() => setOvertime(overtime.filter((_, i) => i !== index))} className="ml-auto text-slate-400 hover:text-red-600">
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div className="flex items-center gap-2">
+              <input
+                type="text"
+                list="ot-codes"
+                placeholder="OT code"
+                value={newCode}
+                onChange={(e) => setNewCode(e.target.value)}
+                onKeyDown={(e) => { if (e.key === 'Enter') addOvertime(); }}
+                className={`w-40 ${inputClass}`}
+              />
+              <datalist id="ot-codes">
+                {unusedCodes.map(code => <option key={code} value={code} />)}
+              </datalist>
+              <button onClick={addOvertime} className="flex items-center gap-1 text-blue-600 hover:text-blue-800 text-sm font-medium">
+                <Plus className="w-4 h-4" />
+                Add OT Code
+              </button>
+              {unusedCodes.length > 0 && (
+                <span className="text-xs text-slate-400">In this run: {unusedCodes.join(', ')}</span>
+              )}
+            </div>
+          </div>
+
+          {importError && <p className="text-sm text-red-600">{importError}</p>}
+        </div>
+
+        <div className="px-6 py-4 border-t border-slate-200 bg-slate-50 flex justify-between gap-2">
+          <div className="flex gap-2">
+            <label className="flex items-center gap-2 bg-white hover:bg-slate-50 text-slate-700 border border-slate-200 px-3 py-1.5 rounded-lg text-xs font-medium cursor-pointer">
+              <Upload className="w-3.5 h-3.5" />
+              Import JSON
+              <input type="file" accept=".json" onChange={handleImport} className="hidden" />
+            </label>
+            <button
+              onClick={() => exportRulesJSON({ rules: draft, overtime })}
+              className="flex items-center gap-2 bg-white hover:bg-slate-50 text-slate-700 border border-slate-200 px-3 py-1.5 rounded-lg text-xs font-medium"
+            >
+              <Download className="w-3.5 h-3.5" />
+              Export JSON
+            </button>
+          </div>
+          <div className="flex gap-2">
+            <button onClick={onClose} className="text-slate-500 hover:text-slate-700 font-medium text-sm px-3">
+              Cancel
+            </button>
+            <button
+              onClick={() => onApply({ rules: draft.map(rule => ({ ...rule, name: rule.name.trim() })), overtime })}
+              disabled={unnamed}
+              className="bg-blue-600 hover:bg-blue-700 disabled:opacity-40 text-white px-4 py-2 rounded-lg text-sm font-medium"
+            >
+              Apply Rules
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CommissionRulesEditor;
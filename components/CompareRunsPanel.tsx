@@ -0,0 +1,340 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { ChevronRight, Download, FileText, GitCompare, Upload, XCircle } from 'lucide-react';
+import {
+  ChangeKind, ColumnMapping, CommissionConfig, ConflictPolicy, DriverReport, LocationAliasMap, RateSheetTable, RateSheetValidity,
+  buildRateData, compareRuns, generateComparisonCSV, generateComparisonPDF, readRateSheet, repriceReports, suggestColumnMapping
+} from '../utils';
+import { mappingWithoutWizard, saveMapping } from '../rateSheetLayouts';
+import ColumnMappingWizard from './ColumnMappingWizard';
+import { SessionSummary, loadSession } from '../sessions';
+
+interface CompareRunsPanelProps {
+  reports: DriverReport[];        // Current run; empty on the upload screen
+  currentLabel: string;
+  currentSessionId?: string;
+  sessions: SessionSummary[];
+  aliases: LocationAliasMap;
+  config: CommissionConfig;
+  policy: ConflictPolicy;
+  validity: RateSheetValidity;    // Sheet-wide dates of the current sheet; the starting point for another sheet
+  onClose: () => void;
+}
+
+// 'CURRENT', 'SESSION:<id>' or 'SHEET' (the current trips priced against another rate sheet)
+type SourceKey = string;
+
+interface LoadedRun {
+  label: string;
+  reports: DriverReport[];
+  sheet?: string; // Rate sheet file, for 'SHEET' runs
+}
+
+const kindStyles: Record<ChangeKind, string> = {
+  ADDED: 'bg-emerald-100 text-emerald-700',
+  REMOVED: 'bg-red-100 text-red-700',
+  CHANGED: 'bg-amber-100 text-amber-700',
+  UNCHANGED: 'bg-slate-100 text-slate-500'
+};
+
+const signed = (value: number) => `${value > 0 ? '+' : ''}${value.toFixed(2)}`;
+
+const CompareRunsPanel: React.FC<CompareRunsPanelProps> = ({
+  reports, currentLabel, currentSessionId, sessions, aliases, config, policy, validity, onClose
+}) => {
+  // Default: the latest other saved run against what is on screen
+  const [sources, setSources] = useState<[SourceKey, SourceKey]>(() => {
+    const others = sessions.filter(s => s.id !== currentSessionId).map(s => `SESSION:${s.id}`);
+    return reports.length > 0 ? [others[0] || '', 'CURRENT'] : [others[1] || '', others[0] || ''];
+  });
+  const [runs, setRuns] = useState<[LoadedRun | null, LoadedRun | null]>([null, null]);
+  const [sheetRuns, setSheetRuns] = useState<[LoadedRun | null, LoadedRun | null]>([null, null]);
+  const [error, setError] = useState<string | null>(null);
+  const [showUnchanged, setShowUnchanged] = useState(false);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [mapping, setMapping] = useState<{ side: 0 | 1; table: RateSheetTable } | null>(null);
+
+  // Resolve each side's source into reports
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all(sources.map(async (source, side): Promise<LoadedRun | null> => {
+      if (source === 'CURRENT') return { label: currentLabel, reports };
+      if (source === 'SHEET') return sheetRuns[side];
+      if (source.startsWith('SESSION:')) {
+        const saved = await loadSession(source.slice('SESSION:'.length));
+        return saved ? { label: saved.name, reports: saved.reports } : null;
+      }
+      return null;
+    })).then(loaded => {
+      if (!cancelled) setRuns([loaded[0], loaded[1]]);
+    }).catch(err => {
+      console.error(err);
+      if (!cancelled) setError('Failed to load a saved session.');
+    });
+    return () => { cancelled = true; };
+  }, [sources, sheetRuns, reports, currentLabel]);
+
+  const comparison = useMemo(() => {
+    if (!runs[0] || !runs[1]) return null;
+    return compareRuns(runs[0].reports, runs[1].reports);
+  }, [runs]);
+
+  const labels = { before: runs[0]?.label || 'A', after: runs[1]?.label || 'B' };
+
+  const setSource = (side: 0 | 1, source: SourceKey) => {
+    setSources(prev => (side === 0 ? [source, prev[1]] : [prev[0], source]));
+    setExpanded(null);
+  };
+
+  // The current run's trips priced against an uploaded sheet
+  const priceAgainst = (side: 0 | 1, table: RateSheetTable, columns: ColumnMapping, sheetValidity: RateSheetValidity) => {
+    try {
+      const rateData = buildRateData(table, columns, sheetValidity, policy);
+      const run = { label: `${currentLabel} @ ${table.fileName}`, sheet: table.fileName, reports: repriceReports(reports, rateData, aliases, config) };
+      setSheetRuns(prev => (side === 0 ? [run, prev[1]] : [prev[0], run]));
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : `Failed to read ${table.fileName}.`);
+    }
+  };
+
+  // A layout seen before is priced straight away; a new one goes through the column wizard first
+  const handleSheet = async (side: 0 | 1, e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setError(null);
+    try {
+      const table = await readRateSheet(file);
+      const columns = mappingWithoutWizard(table.headers);
+      if (columns) priceAgainst(side, table, columns, validity);
+      else setMapping({ side, table });
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : `Failed to read ${file.name}.`);
+    }
+  };
+
+  const renderSide = (side: 0 | 1) => (
+    <div className="flex-1 space-y-2">
+      <label className="block text-xs font-semibold uppercase tracking-wider text-slate-500">Run {side === 0 ? 'A' : 'B'}</label>
+      <select
+        value={sources[side]}
+        onChange={(e) => setSource(side, e.target.value)}
+        className="w-full px-3 py-2 border border-slate-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500"
+      >
+        <option value="">Choose a run...</option>
+        {reports.length > 0 && <option value="CURRENT">Current run ({currentLabel})</option>}
+        {reports.length > 0 && <option value="SHEET">Current PDFs against another rate sheet...</option>}
+        {sessions.map(s => (
+          <option key={s.id} value={`SESSION:${s.id}`}>
+            {s.name} · {new Date(s.processedAt).toLocaleDateString()}
+          </option>
+        ))}
+      </select>
+      {sources[side] === 'SHEET' && (
+        <label className="flex items-center gap-1.5 text-xs font-medium text-slate-500 hover:text-blue-600 cursor-pointer transition-colors">
+          <Upload className="w-3.5 h-3.5" />
+          {sheetRuns[side]?.sheet || 'Select rate sheet CSV'}
+          <input type="file" accept=".csv" onChange={(e) => handleSheet(side, e)} className="hidden" />
+        </label>
+      )}
+    </div>
+  );
+
+  const visibleDrivers = comparison
+    ? comparison.drivers.filter(d => showUnchanged || d.kind !== 'UNCHANGED')
+    : [];
+
+  return (
+    <div className="fixed inset-0 z-30 bg-slate-900/40 flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-6xl max-h-[90vh] flex flex-col overflow-hidden">
+        <div className="px-6 py-4 border-b border-slate-200 flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <GitCompare className="text-blue-600 w-5 h-5" />
+            <h3 className="font-semibold text-slate-900">Compare Runs</h3>
+          </div>
+          <div className="flex items-center gap-3">
+            {comparison && (
+              <>
+                <button
+                  onClick={() => generateComparisonCSV(comparison, labels)}
+                  className="flex items-center gap-1.5 bg-white hover:bg-slate-50 text-slate-700 border border-slate-200 px-3 py-1.5 rounded-lg text-xs font-medium"
+                >
+                  <FileText className="w-3.5 h-3.5" />
+                  CSV
+                </button>
+                <button
+                  onClick={() => generateComparisonPDF(comparison, labels)}
+                  className="flex items-center gap-1.5 bg-slate-900 hover:bg-slate-800 text-white px-3 py-1.5 rounded-lg text-xs font-medium"
+                >
+                  <Download className="w-3.5 h-3.5" />
+                  PDF
+                </button>
+              </>
+            )}
+            <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+              <XCircle className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+
+        <div className="p-6 border-b border-slate-200 space-y-3">
+          <div className="flex gap-6">
+            {renderSide(0)}
+            {renderSide(1)}
+          </div>
+          {error && <p className="text-xs text-red-600">{error}</p>}
+        </div>
+
+        {comparison ? (
+          <div className="overflow-y-auto">
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 p-6">
+              <div className="bg-slate-50 rounded-xl p-4">
+                <p className="text-xs font-semibold uppercase tracking-wider text-slate-500 mb-1">Net Impact</p>
+                <p className={`text-2xl font-bold ${comparison.totalAfter - comparison.totalBefore < 0 ? 'text-red-600' : 'text-emerald-600'}`}>
+                  {signed(comparison.totalAfter - comparison.totalBefore)}
+                </p>
+                <p className="text-xs text-slate-500">{comparison.totalBefore.toFixed(2)} → {comparison.totalAfter.toFixed(2)}</p>
+              </div>
+              <div className="bg-slate-50 rounded-xl p-4">
+                <p className="text-xs font-semibold uppercase tracking-wider text-slate-500 mb-1">Drivers</p>
+                <p className="text-sm text-slate-700">
+                  <span className="text-emerald-600 font-medium">{comparison.driversAdded} added</span>,{' '}
+                  <span className="text-red-600 font-medium">{comparison.driversRemoved} removed</span>,{' '}
+                  <span className="text-amber-600 font-medium">{comparison.driversChanged} changed</span>
+                </p>
+              </div>
+              <div className="bg-slate-50 rounded-xl p-4">
+                <p className="text-xs font-semibold uppercase tracking-wider text-slate-500 mb-1">Trips</p>
+                <p className="text-sm text-slate-700">
+                  <span className="text-emerald-600 font-medium">{comparison.tripsAdded} only in B</span>,{' '}
+                  <span className="text-red-600 font-medium">{comparison.tripsRemoved} only in A</span>
+                </p>
+              </div>
+              <div className="bg-slate-50 rounded-xl p-4">
+                <p className="text-xs font-semibold uppercase tracking-wider text-slate-500 mb-1">Changed Trips</p>
+                <p className="text-2xl font-bold text-amber-600">{comparison.tripsChanged}</p>
+              </div>
+            </div>
+
+            <div className="px-6 pb-2 flex justify-end">
+              <label className="flex items-center gap-2 text-sm text-slate-600">
+                <input type="checkbox" checked={showUnchanged} onChange={(e) => setShowUnchanged(e.target.checked)} />
+                Show unchanged drivers
+              </label>
+            </div>
+
+            <table className="w-full text-sm">
+              <thead className="bg-slate-50 text-slate-500 text-xs uppercase tracking-wider">
+                <tr>
+                  <th className="px-6 py-2 text-left">Driver</th>
+                  <th className="px-3 py-2 text-right">Trips A / B</th>
+                  <th className="px-3 py-2 text-right">Comm A</th>
+                  <th className="px-3 py-2 text-right">Comm B</th>
+                  <th className="px-6 py-2 text-right">Impact</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {visibleDrivers.map(d => {
+                  const isOpen = expanded === d.driverName;
+                  const changedTrips = d.trips.filter(c => c.kind !== 'UNCHANGED');
+                  return (
+                    <React.Fragment key={d.driverName}>
+                      <tr
+                        onClick={() => setExpanded(isOpen ? null : d.driverName)}
+                        className="hover:bg-slate-50 cursor-pointer"
+                      >
+                        <td className="px-6 py-2 font-medium text-slate-800">
+                          <span className="inline-flex items-center gap-2">
+                            <ChevronRight className={`w-3.5 h-3.5 text-slate-400 transition-transform ${isOpen ? 'rotate-90' : ''}`} />
+                            {d.driverName}
+                            <span className={`px-1.5 py-0.5 rounded text-[10px] font-medium ${kindStyles[d.kind]}`}>{d.kind}</span>
+                          </span>
+                        </td>
+                        <td className="px-3 py-2 text-right font-mono text-slate-600">{d.tripsBefore} / {d.tripsAfter}</td>
+                        <td className="px-3 py-2 text-right font-mono text-slate-600">{d.commBefore.toFixed(2)}</td>
+                        <td className="px-3 py-2 text-right font-mono text-slate-600">{d.commAfter.toFixed(2)}</td>
+                        <td className={`px-6 py-2 text-right font-mono font-medium ${d.commAfter - d.commBefore < 0 ? 'text-red-600' : 'text-slate-900'}`}>
+                          {signed(d.commAfter - d.commBefore)}
+                        </td>
+                      </tr>
+                      {isOpen && (
+                        <tr>
+                          <td colSpan={5} className="bg-slate-50/60 px-6 py-3">
+                            {changedTrips.length === 0 ? (
+                              <p className="text-xs text-slate-400">No trip-level changes.</p>
+                            ) : (
+                              <table className="w-full text-xs">
+                                <thead className="text-slate-400">
+                                  <tr>
+                                    <th className="py-1 text-left">Date / DO</th>
+                                    <th className="py-1 text-left">Route</th>
+                                    <th className="py-1 text-left">Status</th>
+                                    <th className="py-1 text-right">Rate A → B</th>
+                                    <th className="py-1 text-right">Comm A → B</th>
+                                    <th className="py-1 text-right">Match A → B</th>
+                                    <th className="py-1 text-right">Impact</th>
+                                  </tr>
+                                </thead>
+                                <tbody className="divide-y divide-slate-100">
+                                  {changedTrips.map((c, i) => {
+                                    const t = (c.after || c.before)!;
+                                    return (
+                                      <tr key={i}>
+                                        <td className="py-1 font-mono text-slate-600">{t.date} · {t.doNumber}</td>
+                                        <td className="py-1 text-slate-700">{t.pickup} → {t.drop}</td>
+                                        <td className="py-1">
+                                          <span className={`px-1.5 py-0.5 rounded text-[10px] font-medium ${kindStyles[c.kind]}`}>
+                                            {c.kind === 'CHANGED' ? c.changes.join(', ') : c.kind === 'ADDED' ? 'Only in B' : 'Only in A'}
+                                          </span>
+                                        </td>
+                                        <td className="py-1 text-right font-mono">{c.before?.newEffRt.toFixed(2) ?? '—'} → {c.after?.newEffRt.toFixed(2) ?? '—'}</td>
+                                        <td className="py-1 text-right font-mono">{c.before?.newComm.toFixed(2) ?? '—'} → {c.after?.newComm.toFixed(2) ?? '—'}</td>
+                                        <td className="py-1 text-right">{c.before?.matchType ?? '—'} → {c.after?.matchType ?? '—'}</td>
+                                        <td className="py-1 text-right font-mono font-medium">{signed(c.commDiff)}</td>
+                                      </tr>
+                                    );
+                                  })}
+                                </tbody>
+                              </table>
+                            )}
+                          </td>
+                        </tr>
+                      )}
+                    </React.Fragment>
+                  );
+                })}
+                {visibleDrivers.length === 0 && (
+                  <tr>
+                    <td colSpan={5} className="p-12 text-center text-slate-400 text-sm">Both runs pay every driver the same.</td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <div className="p-12 text-center text-slate-400 text-sm">
+            Pick two runs to compare: saved sessions, the current run, or the current PDFs against another rate sheet.
+          </div>
+        )}
+      </div>
+
+      {mapping && (
+        <ColumnMappingWizard
+          table={mapping.table}
+          initialMapping={suggestColumnMapping(mapping.table.headers)}
+          initialValidity={validity}
+          policy={policy}
+          onConfirm={(columns, sheetValidity) => {
+            saveMapping(mapping.table.headers, columns);
+            setMapping(null);
+            priceAgainst(mapping.side, mapping.table, columns, sheetValidity);
+          }}
+          onCancel={() => setMapping(null)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default CompareRunsPanel;
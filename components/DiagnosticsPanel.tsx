@@ -0,0 +1,110 @@
+import React, { useMemo, useState } from 'react';
+import { Download } from 'lucide-react';
+import { DiagnosticKind, ParseDiagnostic } from '../utils';
+
+interface DiagnosticsPanelProps {
+  diagnostics: ParseDiagnostic[];         // The active driver's lines
+  documentDiagnostics: ParseDiagnostic[]; // Lines before the first driver
+  onExport: () => void;
+}
+
+const KIND_LABELS: Record<DiagnosticKind, { label: string; style: string }> = {
+  UNPARSED_TRIP: { label: 'Unparsed trip', style: 'bg-red-100 text-red-700' },
+  BAD_NUMBER: { label: 'Bad number', style: 'bg-amber-100 text-amber-700' },
+  DUPLICATE_TRIP: { label: 'Duplicate trip', style: 'bg-purple-100 text-purple-700' },
+  IGNORED: { label: 'Ignored', style: 'bg-slate-100 text-slate-500' }
+};
+
+const pageLabel = (d: ParseDiagnostic) => (d.sourceFile ? `${d.sourceFile} · Page ${d.page}` : `Page ${d.page}`);
+
+// Diagnostics arrive in file and page order, so groups keep load order
+const groupByPage = (diagnostics: ParseDiagnostic[]) => {
+  const pages = new Map<string, ParseDiagnostic[]>();
+  diagnostics.forEach(d => {
+    const label = pageLabel(d);
+    const list = pages.get(label) || [];
+    list.push(d);
+    pages.set(label, list);
+  });
+  return Array.from(pages.entries());
+};
+
+const DiagnosticsPanel: React.FC<DiagnosticsPanelProps> = ({ diagnostics, documentDiagnostics, onExport }) => {
+  // Ignored lines are mostly page furniture, so they start hidden
+  const [kinds, setKinds] = useState<Set<DiagnosticKind>>(new Set(['UNPARSED_TRIP', 'BAD_NUMBER', 'DUPLICATE_TRIP']));
+
+  const toggleKind = (kind: DiagnosticKind) => {
+    const next = new Set(kinds);
+    if (next.has(kind)) next.delete(kind); else next.add(kind);
+    setKinds(next);
+  };
+
+  const pages = useMemo(() => groupByPage(diagnostics.filter(d => kinds.has(d.kind))), [diagnostics, kinds]);
+  const documentPages = useMemo(() => groupByPage(documentDiagnostics.filter(d => kinds.has(d.kind))), [documentDiagnostics, kinds]);
+
+  const countOf = (kind: DiagnosticKind) => diagnostics.filter(d => d.kind === kind).length;
+
+  const renderPages = (groups: [string, ParseDiagnostic[]][]) => groups.map(([label, list]) => (
+    <div key={label}>
+      <div className="px-6 py-2 bg-slate-50 text-xs font-semibold uppercase tracking-wider text-slate-500 sticky top-0">
+        {label}
+      </div>
+      <div className="divide-y divide-slate-100">
+        {list.map((d, i) => (
+          <div key={i} className="px-6 py-2.5 flex items-start gap-3">
+            <span className={`flex-shrink-0 px-1.5 py-0.5 rounded text-[10px] font-medium ${KIND_LABELS[d.kind].style}`}>
+              {KIND_LABELS[d.kind].label}
+            </span>
+            <div className="min-w-0">
+              <p className="text-xs text-slate-600">{d.message}</p>
+              <p className="font-mono text-xs text-slate-400 truncate" title={d.line}>{d.line}</p>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  ));
+
+  return (
+    <div className="flex-1 overflow-auto">
+      <div className="px-6 py-3 border-b border-slate-100 flex items-center justify-between">
+        <div className="flex gap-2">
+          {(Object.keys(KIND_LABELS) as DiagnosticKind[]).map(kind => (
+            <button
+              key={kind}
+              onClick={() => toggleKind(kind)}
+              className={`px-2 py-1 rounded-lg text-xs font-medium border transition-colors
+                ${kinds.has(kind) ? `${KIND_LABELS[kind].style} border-transparent` : 'bg-white text-slate-400 border-slate-200'}`}
+            >
+              {KIND_LABELS[kind].label} ({countOf(kind)})
+            </button>
+          ))}
+        </div>
+        <button
+          onClick={onExport}
+          className="flex items-center gap-2 bg-white hover:bg-slate-50 text-slate-700 border border-slate-200 px-3 py-1.5 rounded-lg text-xs font-medium"
+        >
+          <Download className="w-3.5 h-3.5" />
+          Export All Diagnostics
+        </button>
+      </div>
+
+      {renderPages(pages)}
+
+      {pages.length === 0 && (
+        <div className="p-12 text-center text-slate-400 text-sm">No matching lines for this driver.</div>
+      )}
+
+      {documentPages.length > 0 && (
+        <>
+          <div className="px-6 py-3 border-t border-slate-200 text-sm font-semibold text-slate-700">
+            Before the first driver
+          </div>
+          {renderPages(documentPages)}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default DiagnosticsPanel;
@@ -0,0 +1,168 @@
+import React, { useMemo, useState } from 'react';
+import { Download, Search, Trash2, Upload, UserCheck, XCircle } from 'lucide-react';
+import { DriverRecord, DriverReport, isUnknownDriver } from '../utils';
+import { addDriverAlias, exportDriverMasterCSV, parseDriverMasterFile } from '../driverMaster';
+
+interface DriverMasterPanelProps {
+  master: DriverRecord[];
+  reports: DriverReport[];
+  onChange: (master: DriverRecord[]) => void;
+  onClose: () => void;
+}
+
+const DriverMasterPanel: React.FC<DriverMasterPanelProps> = ({ master, reports, onChange, onClose }) => {
+  const [search, setSearch] = useState('');
+  const [mapping, setMapping] = useState<Record<string, string>>({}); // Unknown name → chosen employee ID
+  const [importError, setImportError] = useState<string | null>(null);
+
+  const unknown = reports.filter(r => isUnknownDriver(r, master));
+  const loaded = useMemo(() => new Map(reports.filter(r => r.employeeId).map(r => [r.employeeId!, r])), [reports]);
+
+  const records = useMemo(() => {
+    const term = search.toLowerCase();
+    return master
+      .filter(r => [r.employeeId, r.name, ...r.aliases].some(v => v.toLowerCase().includes(term)))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }, [master, search]);
+
+  const mapUnknown = (name: string) => {
+    const employeeId = mapping[name];
+    if (!employeeId) return;
+    onChange(addDriverAlias(master, employeeId, name));
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files && e.target.files[0]) {
+      setImportError(null);
+      try {
+        onChange(await parseDriverMasterFile(e.target.files[0]));
+      } catch (err) {
+        console.error(err);
+        setImportError(err instanceof Error ? err.message : 'Failed to import the driver file.');
+      }
+      e.target.value = '';
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-30 bg-slate-900/40 flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-3xl max-h-[85vh] flex flex-col overflow-hidden">
+        <div className="px-6 py-4 border-b border-slate-200 flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <UserCheck className="text-blue-600 w-5 h-5" />
+            <h3 className="font-semibold text-slate-900">Driver Master ({master.length})</h3>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+            <XCircle className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4 overflow-y-auto">
+          <p className="text-sm text-slate-500">
+            PDF driver names are looked up by name and alias, ignoring case, spacing and punctuation. Name variants of one employee become a single driver
+            carrying the employee ID. Upload a CSV with Employee ID, Name, Aliases (separated by ; or |) and Default Truck columns. It is kept in this browser.
+          </p>
+
+          {/* Unknown drivers */}
+          {unknown.length > 0 && (
+            <div className="bg-amber-50 border border-amber-200 rounded-lg">
+              <p className="px-4 py-2 text-sm font-medium text-amber-800 border-b border-amber-200">
+                {unknown.length} driver{unknown.length === 1 ? '' : 's'} in this run {unknown.length === 1 ? 'is' : 'are'} not in the master file
+              </p>
+              <div className="divide-y divide-amber-100">
+                {unknown.map(r => (
+                  <div key={r.driverName} className="px-4 py-2 flex items-center gap-3 text-sm">
+                    <span className="flex-1 font-medium text-slate-800">{r.driverName}</span>
+                    <select
+                      value={mapping[r.driverName] || ''}
+                      onChange={(e) => setMapping({ ...mapping, [r.driverName]: e.target.value })}
+                      className="w-64 px-2 py-1.5 text-sm border border-slate-300 rounded-lg bg-white focus:ring-2 focus:ring-blue-500 outline-none"
+                    >
+                      <option value="">Same person as...</option>
+                      {master.map(m => <option key={m.employeeId} value={m.employeeId}>{m.name} ({m.employeeId})</option>)}
+                    </select>
+                    <button
+                      onClick={() => mapUnknown(r.driverName)}
+                      disabled={!mapping[r.driverName]}
+                      className="bg-white hover:bg-amber-100 disabled:opacity-40 text-amber-800 border border-amber-300 px-3 py-1.5 rounded-lg text-xs font-medium"
+                    >
+                      Add as alias
+                    </button>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Records */}
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400" />
+            <input
+              type="text"
+              placeholder="Search by ID, name or alias..."
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              className="w-full pl-9 pr-3 py-2 text-sm border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+            />
+          </div>
+
+          <div className="border border-slate-200 rounded-lg divide-y divide-slate-100">
+            {records.map(r => {
+              const report = loaded.get(r.employeeId);
+              return (
+                <div key={r.employeeId} className="px-4 py-2 text-sm flex items-start gap-3">
+                  <span className="w-20 font-mono text-slate-500">{r.employeeId}</span>
+                  <div className="flex-1 min-w-0">
+                    <p className="font-medium text-slate-800">
+                      {r.name}
+                      {report && (
+                        <span className="ml-2 px-1.5 py-0.5 rounded text-[10px] font-medium bg-emerald-50 text-emerald-600">
+                          {report.transactions.length} trips this run
+                        </span>
+                      )}
+                    </p>
+                    {r.aliases.length > 0 && <p className="text-xs text-slate-500 truncate">Also: {r.aliases.join(', ')}</p>}
+                  </div>
+                  {r.defaultTruck && <span className="font-mono text-xs text-slate-500">{r.defaultTruck}</span>}
+                </div>
+              );
+            })}
+            {records.length === 0 && (
+              <div className="p-6 text-center text-slate-400 text-sm">
+                {master.length === 0 ? 'No driver master file loaded.' : 'No drivers match.'}
+              </div>
+            )}
+          </div>
+
+          {importError && <p className="text-sm text-red-600">{importError}</p>}
+        </div>
+
+        <div className="px-6 py-4 border-t border-slate-200 bg-slate-50 flex justify-end gap-2">
+          <label className="flex items-center gap-2 bg-white hover:bg-slate-50 text-slate-700 border border-slate-200 px-3 py-1.5 rounded-lg text-xs font-medium cursor-pointer">
+            <Upload className="w-3.5 h-3.5" />
+            {master.length > 0 ? 'Replace from CSV/JSON' : 'Upload CSV/JSON'}
+            <input type="file" accept=".csv,.json" onChange={handleImport} className="hidden" />
+          </label>
+          <button
+            onClick={() => exportDriverMasterCSV(master)}
+            disabled={master.length === 0}
+            className="flex items-center gap-2 bg-white hover:bg-slate-50 disabled:opacity-40 text-slate-700 border border-slate-200 px-3 py-1.5 rounded-lg text-xs font-medium"
+          >
+            <Download className="w-3.5 h-3.5" />
+            Export CSV
+          </button>
+          <button
+            onClick={() => onChange([])}
+            disabled={master.length === 0}
+            className="flex items-center gap-2 bg-white hover:bg-red-50 disabled:opacity-40 text-red-700 border border-red-200 px-3 py-1.5 rounded-lg text-xs font-medium"
+          >
+            <Trash2 className="w-3.5 h-3.5" />
+            Clear
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DriverMasterPanel;
@@ -0,0 +1,86 @@
+import React from 'react';
+import { Copy, RotateCcw } from 'lucide-react';
+import { DoIssue, DoIssueGroup, DoResolution } from '../utils';
+
+interface DuplicatesPanelProps {
+  groups: DoIssueGroup[];
+  unresolved: number;
+  onResolve: (driverIndex: number, tripIndex: number, resolution: DoResolution | undefined) => void;
+  onSelectDriver: (driverIndex: number) => void;
+}
+
+export const DO_ISSUE_LABELS: Record<DoIssue, { label: string; style: string }> = {
+  REPEATED_SAME_DRIVER: { label: 'Repeated DO', style: 'bg-purple-100 text-purple-700' },
+  REPEATED_OTHER_DRIVER: { label: 'DO on another driver', style: 'bg-fuchsia-100 text-fuchsia-700' },
+  MALFORMED: { label: 'Malformed DO', style: 'bg-orange-100 text-orange-700' }
+};
+
+const DuplicatesPanel: React.FC<DuplicatesPanelProps> = ({ groups, unresolved, onResolve, onSelectDriver }) => (
+  <div className="mb-6 bg-white border border-purple-200 rounded-xl overflow-hidden shadow-sm">
+    <div className="bg-purple-50 px-6 py-4 border-b border-purple-100 flex items-center justify-between">
+      <div className="flex items-center gap-2">
+        <Copy className="text-purple-600 w-5 h-5" />
+        <h3 className="font-semibold text-purple-900">Duplicates</h3>
+      </div>
+      <span className="text-xs font-medium text-purple-700">
+        {unresolved > 0 ? `${unresolved} trip${unresolved === 1 ? '' : 's'} held out of totals` : 'All resolved'}
+      </span>
+    </div>
+    <div className="p-6">
+      <p className="text-sm text-slate-600 mb-3">
+        These trips carry a repeated or malformed DO number. They are left out of the commission totals until you keep or exclude each one.
+      </p>
+      <div className="space-y-3 max-h-72 overflow-y-auto">
+        {groups.map(group => (
+          <div key={`${group.doNumber}-${group.trips[0].driverIndex}-${group.trips[0].tripIndex}`} className="border border-slate-200 rounded-lg">
+            <div className="px-4 py-2 bg-slate-50 flex items-center gap-2 text-xs">
+              <span className="font-mono font-medium text-slate-700">DO {group.doNumber || '(blank)'}</span>
+              <span className={`px-1.5 py-0.5 rounded text-[10px] font-medium ${DO_ISSUE_LABELS[group.issue].style}`}>
+                {DO_ISSUE_LABELS[group.issue].label}
+              </span>
+            </div>
+            <div className="divide-y divide-slate-100">
+              {group.trips.map(({ driverIndex, tripIndex, driverName, transaction: t }) => (
+                <div key={`${driverIndex}-${tripIndex}`} className="px-4 py-2 flex items-center gap-4 text-xs">
+                  <button onClick={() => onSelectDriver(driverIndex)} className="w-40 text-left font-medium text-blue-600 hover:text-blue-800 truncate">
+                    {driverName}
+                  </button>
+                  <span className="font-mono text-slate-500">{t.date}</span>
+                  <span className="text-slate-600 flex-1 truncate">{t.pickup} → {t.drop}</span>
+                  <span className="font-mono text-slate-600">{t.newComm.toFixed(2)}</span>
+                  {t.doResolution ? (
+                    <span className="flex items-center gap-1">
+                      <span className={`px-1.5 py-0.5 rounded text-[10px] font-medium ${t.doResolution === 'KEEP' ? 'bg-emerald-100 text-emerald-700' : 'bg-slate-100 text-slate-500'}`}>
+                        {t.doResolution === 'KEEP' ? 'Kept' : 'Excluded'}
+                      </span>
+                      <button onClick={() => onResolve(driverIndex, tripIndex, undefined)} title="Undo" className="text-slate-400 hover:text-slate-600">
+                        <RotateCcw className="w-3 h-3" />
+                      </button>
+                    </span>
+                  ) : (
+                    <span className="flex gap-1">
+                      <button
+                        onClick={() => onResolve(driverIndex, tripIndex, 'KEEP')}
+                        className="px-2 py-1 rounded border border-emerald-200 text-emerald-700 hover:bg-emerald-50 font-medium"
+                      >
+                        Keep
+                      </button>
+                      <button
+                        onClick={() => onResolve(driverIndex, tripIndex, 'EXCLUDE')}
+                        className="px-2 py-1 rounded border border-slate-200 text-slate-600 hover:bg-slate-50 font-medium"
+                      >
+                        Exclude
+                      </button>
+                    </span>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  </div>
+);
+
+export default DuplicatesPanel;
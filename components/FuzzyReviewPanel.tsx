@@ -0,0 +1,135 @@
+import React, { useMemo, useState } from 'react';
+import { Check, ListChecks, X, XCircle } from 'lucide-react';
+import { DriverReport, FuzzyMapping, LocationAliasMap, RateData, ReviewDecision, getFuzzyMappings, getRouteCandidates } from '../utils';
+
+interface FuzzyReviewPanelProps {
+  reports: DriverReport[];
+  rateData: RateData;
+  aliases: LocationAliasMap;
+  onDecision: (pickup: string, drop: string, decision: ReviewDecision) => void;
+  onClose: () => void;
+}
+
+const ScoreChip: React.FC<{ score: number }> = ({ score }) => (
+  <span className={`inline-flex px-1.5 py-0.5 rounded text-[10px] font-mono font-medium
+    ${score >= 0.85 ? 'bg-emerald-100 text-emerald-700' : score >= 0.7 ? 'bg-amber-100 text-amber-700' : 'bg-red-100 text-red-700'}`}>
+    {Math.round(score * 100)}%
+  </span>
+);
+
+const statusStyles: Record<FuzzyMapping['status'], string> = {
+  PENDING: 'bg-slate-100 text-slate-600',
+  ACCEPTED: 'bg-emerald-100 text-emerald-700',
+  REJECTED: 'bg-red-100 text-red-700'
+};
+
+const FuzzyReviewPanel: React.FC<FuzzyReviewPanelProps> = ({ reports, rateData, aliases, onDecision, onClose }) => {
+  const [showDecided, setShowDecided] = useState(false);
+
+  // Weakest guesses first
+  const mappings = useMemo(() => {
+    return getFuzzyMappings(reports)
+      .sort((a, b) => a.routeScore - b.routeScore);
+  }, [reports]);
+
+  const pending = mappings.filter(m => m.status === 'PENDING').length;
+  const visible = showDecided ? mappings : mappings.filter(m => m.status === 'PENDING');
+
+  return (
+    <div className="fixed inset-0 z-30 bg-slate-900/40 flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-5xl max-h-[85vh] flex flex-col overflow-hidden">
+        <div className="px-6 py-4 border-b border-slate-200 flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <ListChecks className="text-amber-500 w-5 h-5" />
+            <h3 className="font-semibold text-slate-900">Fuzzy Match Review</h3>
+            <span className="text-sm text-slate-500">
+              {pending} of {mappings.length} mapping{mappings.length === 1 ? '' : 's'} pending
+            </span>
+          </div>
+          <div className="flex items-center gap-4">
+            <label className="flex items-center gap-2 text-sm text-slate-600">
+              <input type="checkbox" checked={showDecided} onChange={(e) => setShowDecided(e.target.checked)} />
+              Show decided
+            </label>
+            <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+              <XCircle className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+
+        <div className="overflow-y-auto divide-y divide-slate-100">
+          {visible.map(m => {
+            const alternatives = getRouteCandidates(m.pickup, m.drop, rateData, 5, aliases)
+              .filter(c => c.pickup !== m.matchedPickup || c.drop !== m.matchedDrop)
+              .slice(0, 3);
+
+            return (
+              <div key={`${m.pickup}|${m.drop}`} className="px-6 py-4">
+                <div className="flex items-start justify-between gap-6">
+                  <div className="space-y-1 text-sm">
+                    <div className="font-mono text-slate-700">
+                      {m.pickup} <span className="text-slate-400">→</span> {m.drop}
+                    </div>
+                    <div className="font-mono text-amber-700 flex items-center gap-2 flex-wrap">
+                      <span>{m.matchedPickup}</span> <ScoreChip score={m.pickupScore} />
+                      <span className="text-slate-400">→</span>
+                      <span>{m.matchedDrop}</span> <ScoreChip score={m.dropScore} />
+                      <span className="text-xs text-slate-400 font-sans">route</span> <ScoreChip score={m.routeScore} />
+                    </div>
+                    <div className="text-xs text-slate-500">
+                      {m.tripCount} trip{m.tripCount === 1 ? '' : 's'} across {m.driverCount} driver{m.driverCount === 1 ? '' : 's'}
+                      <span className={`ml-2 px-1.5 py-0.5 rounded text-[10px] font-medium ${statusStyles[m.status]}`}>{m.status}</span>
+                    </div>
+                  </div>
+
+                  <div className="flex gap-2 flex-shrink-0">
+                    <button
+                      onClick={() => onDecision(m.pickup, m.drop, { type: 'ACCEPT' })}
+                      disabled={m.status === 'ACCEPTED'}
+                      className="flex items-center gap-1 bg-emerald-600 hover:bg-emerald-700 disabled:opacity-40 text-white px-3 py-1.5 rounded-lg text-xs font-medium"
+                    >
+                      <Check className="w-3.5 h-3.5" />
+                      Accept
+                    </button>
+                    <button
+                      onClick={() => onDecision(m.pickup, m.drop, { type: 'REJECT' })}
+                      disabled={m.status === 'REJECTED'}
+                      className="flex items-center gap-1 bg-white hover:bg-red-50 disabled:opacity-40 text-red-700 border border-red-200 px-3 py-1.5 rounded-lg text-xs font-medium"
+                    >
+                      <X className="w-3.5 h-3.5" />
+                      Reject
+                    </button>
+                  </div>
+                </div>
+
+                {alternatives.length > 0 && (
+                  <div className="mt-3 flex flex-wrap gap-2">
+                    <span className="text-xs text-slate-400 self-center">Alternatives:</span>
+                    {alternatives.map(c => (
+                      <button
+                        key={`${c.pickup}|${c.drop}`}
+                        onClick={() => onDecision(m.pickup, m.drop, { type: 'CANDIDATE', candidate: c })}
+                        title={`Use this route (rate ${c.rate.toFixed(2)}; pickup ${Math.round(c.pickupScore * 100)}%, drop ${Math.round(c.dropScore * 100)}%)`}
+                        className="inline-flex items-center gap-1.5 px-2 py-1 rounded-lg border border-slate-200 hover:border-blue-400 hover:bg-blue-50 text-xs font-mono text-slate-600"
+                      >
+                        {c.pickup} → {c.drop} <ScoreChip score={c.score} />
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+
+          {visible.length === 0 && (
+            <div className="p-12 text-center text-slate-400 text-sm">
+              {mappings.length === 0 ? 'No fuzzy matches in this run.' : 'All fuzzy mappings have been reviewed.'}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default FuzzyReviewPanel;
@@ -0,0 +1,96 @@
+import React, { useState } from 'react';
+import { Gauge, RefreshCw, XCircle } from 'lucide-react';
+import { DriverReport, MatchBenchmark, RateData, benchmarkMatching } from '../utils';
+
+interface MatchBenchmarkPanelProps {
+  reports: DriverReport[];
+  rateData: RateData;
+  onClose: () => void;
+}
+
+const formatMs = (ms: number) => `${ms.toFixed(ms < 10 ? 2 : 0)} ms`;
+
+// Opened with ?benchmark in the URL; times location matching on the loaded PDF spellings
+const MatchBenchmarkPanel: React.FC<MatchBenchmarkPanelProps> = ({ reports, rateData, onClose }) => {
+  const [result, setResult] = useState<MatchBenchmark | null>(null);
+  const [running, setRunning] = useState(false);
+
+  const run = () => {
+    setRunning(true);
+    // Let the spinner paint before the main thread is busy
+    setTimeout(() => {
+      const trips = reports.flatMap(r => r.transactions);
+      const pickups = Array.from(new Set(trips.map(t => t.pickup)));
+      const drops = Array.from(new Set(trips.map(t => t.drop)));
+      setResult(benchmarkMatching(rateData, pickups, drops));
+      setRunning(false);
+    }, 20);
+  };
+
+  const rows: [string, number][] = result ? [
+    ['Full scan', result.scanMs],
+    ['Index build', result.indexBuildMs],
+    ['Indexed (cold cache)', result.indexedMs],
+    ['Indexed (cached)', result.cachedMs]
+  ] : [];
+
+  return (
+    <div className="fixed inset-0 z-30 bg-slate-900/40 flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-md flex flex-col overflow-hidden">
+        <div className="px-6 py-4 border-b border-slate-200 flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <Gauge className="text-blue-600 w-5 h-5" />
+            <h3 className="font-semibold text-slate-900">Matching Benchmark</h3>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+            <XCircle className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <p className="text-sm text-slate-500">
+            Matches every distinct pickup and drop in the loaded PDFs against the rate sheet, once by scanning every location and once through the match index, and checks both give the same result.
+          </p>
+
+          {result && (
+            <>
+              <p className="text-xs text-slate-500">
+                {result.lookups} spellings against {result.candidates} rate-sheet locations
+              </p>
+              <table className="w-full text-sm">
+                <tbody className="divide-y divide-slate-100">
+                  {rows.map(([label, ms]) => (
+                    <tr key={label}>
+                      <td className="py-1.5 text-slate-600">{label}</td>
+                      <td className="py-1.5 text-right font-mono text-slate-900">{formatMs(ms)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {result.mismatches.length === 0 ? (
+                <p className="text-xs text-green-700 bg-green-50 border border-green-200 rounded-lg px-3 py-2">
+                  Indexed results match the full scan for every spelling.
+                </p>
+              ) : (
+                <p className="text-xs text-red-700 bg-red-50 border border-red-200 rounded-lg px-3 py-2">
+                  {result.mismatches.length} spelling{result.mismatches.length === 1 ? '' : 's'} matched differently: {result.mismatches.slice(0, 5).join(', ')}
+                </p>
+              )}
+            </>
+          )}
+
+          <button
+            onClick={run}
+            disabled={running}
+            className="w-full flex items-center justify-center gap-2 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-300 text-white px-4 py-2 rounded-lg text-sm font-medium transition-colors"
+          >
+            {running && <RefreshCw className="w-4 h-4 animate-spin" />}
+            {running ? 'Running...' : result ? 'Run Again' : 'Run Benchmark'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MatchBenchmarkPanel;
@@ -0,0 +1,61 @@
+import React, { useState } from 'react';
+import { Check } from 'lucide-react';
+import { RouteResolution } from '../utils';
+
+interface MissingRateEditorProps {
+  routeOptions: string[]; // Rate-sheet routes formatted as "PICK → DROP"
+  listId: string;         // id of the shared <datalist> holding routeOptions
+  onResolve: (resolution: RouteResolution) => void;
+}
+
+// Inline input for a "Rate Missing" trip: accepts either a numeric rate or an existing rate-sheet route
+const MissingRateEditor: React.FC<MissingRateEditorProps> = ({ routeOptions, listId, onResolve }) => {
+  const [value, setValue] = useState('');
+  const [invalid, setInvalid] = useState(false);
+
+  const submit = () => {
+    const input = value.trim();
+    if (!input) return;
+
+    const rate = Number(input);
+    if (!isNaN(rate) && rate > 0) {
+      onResolve({ type: 'RATE', rate });
+      setValue('');
+      return;
+    }
+
+    const route = routeOptions.find(r => r.toUpperCase() === input.toUpperCase());
+    if (route) {
+      const [pickup, drop] = route.split(' → ');
+      onResolve({ type: 'ROUTE', pickup, drop });
+      setValue('');
+      return;
+    }
+
+    setInvalid(true);
+  };
+
+  return (
+    <div className="mt-1.5 flex items-center gap-1">
+      <input
+        type="text"
+        list={listId}
+        value={value}
+        placeholder="Rate or route..."
+        onChange={(e) => { setValue(e.target.value); setInvalid(false); }}
+        onKeyDown={(e) => { if (e.key === 'Enter') submit(); }}
+        className={`w-44 px-2 py-1 text-xs border rounded focus:ring-2 focus:ring-blue-500 outline-none
+          ${invalid ? 'border-red-400 bg-red-50' : 'border-slate-300'}`}
+      />
+      <button
+        onClick={submit}
+        title="Apply to every trip on this route"
+        className="p-1 rounded bg-blue-600 hover:bg-blue-700 text-white transition-colors"
+      >
+        <Check className="w-3 h-3" />
+      </button>
+    </div>
+  );
+};
+
+export default MissingRateEditor;
@@ -0,0 +1,51 @@
+import React from 'react';
+import { XCircle } from 'lucide-react';
+import { ParseProgress } from '../pdfParserClient';
+
+interface ParseProgressPanelProps {
+  progress: (ParseProgress & { fileIndex: number; fileCount: number }) | null; // null until the first page is read
+  onCancel: () => void;
+}
+
+const ParseProgressPanel: React.FC<ParseProgressPanelProps> = ({ progress, onCancel }) => {
+  const percent = progress ? Math.round((progress.page / progress.totalPages) * 100) : 0;
+
+  return (
+    <div className="mb-6 bg-white border border-blue-200 rounded-xl px-6 py-4 shadow-sm animate-in fade-in">
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center gap-3">
+          <div className="w-5 h-5 border-2 border-blue-200 border-t-blue-600 rounded-full animate-spin" />
+          <div>
+            <p className="text-sm font-medium text-slate-800">
+              {progress ? (
+                <>
+                  Processing <span className="font-mono">{progress.fileName}</span>
+                  {progress.fileCount > 1 && <span className="text-slate-400"> (file {progress.fileIndex + 1} of {progress.fileCount})</span>}
+                </>
+              ) : 'Opening PDF...'}
+            </p>
+            {progress && (
+              <p className="text-xs text-slate-500">
+                Page {progress.page} of {progress.totalPages}
+                {progress.driver && <> · reading {progress.driver}</>}
+                {' · '}{progress.driversDone} driver{progress.driversDone === 1 ? '' : 's'} finished
+              </p>
+            )}
+          </div>
+        </div>
+        <button
+          onClick={onCancel}
+          className="flex items-center gap-1.5 bg-white hover:bg-red-50 text-red-700 px-3 py-1.5 rounded-lg border border-red-200 text-xs font-medium transition-colors"
+        >
+          <XCircle className="w-3.5 h-3.5" />
+          Cancel
+        </button>
+      </div>
+      <div className="h-1.5 bg-slate-100 rounded-full overflow-hidden">
+        <div className="h-full bg-blue-600 transition-all duration-200" style={{ width: `${percent}%` }} />
+      </div>
+    </div>
+  );
+};
+
+export default ParseProgressPanel;
@@ -0,0 +1,435 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { AlertTriangle, ArrowDown, ArrowUp, Copy, Download, Landmark, Plus, Trash2, Upload, XCircle } from 'lucide-react';
+import { DriverReport, countPendingReviews, countUnresolvedDoIssues } from '../utils';
+import {
+  DATE_FORMATS, PAYROLL_FIELDS, PAY_AMOUNT_SOURCES, PayrollColumn, PayrollField, PayrollTemplate, PayAmountSource,
+  buildPayrollExport, defaultPayrollPeriod, defaultTemplate, downloadPayrollExport, exportTemplatesJSON, isPayrollDraft,
+  loadPayrollTemplates, newColumn, newTemplateId, parseTemplatesFile, savePayrollTemplates
+} from '../payrollTemplates';
+
+interface PayrollExportPanelProps {
+  reports: DriverReport[];
+  onClose: () => void;
+}
+
+const PREVIEW_LINES = 12;
+
+const inputClass = 'w-full px-2 py-1.5 text-sm border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none';
+const labelClass = 'text-[10px] font-semibold uppercase tracking-wider text-slate-500';
+
+const NUMERIC_FIELDS: PayrollField[] = ['AMOUNT', 'WEIGHT'];
+const DATE_FIELDS: PayrollField[] = ['PERIOD_START', 'PERIOD_END'];
+
+const PayrollExportPanel: React.FC<PayrollExportPanelProps> = ({ reports, onClose }) => {
+  const [templates, setTemplates] = useState<PayrollTemplate[]>(loadPayrollTemplates);
+  const [selectedId, setSelectedId] = useState(() => templates[0].id);
+  const [period, setPeriod] = useState(() => defaultPayrollPeriod(reports));
+  const [importError, setImportError] = useState<string | null>(null);
+  const [draftConfirmed, setDraftConfirmed] = useState(false);
+
+  // Templates are saved as they are edited, so they are ready for next month's run
+  useEffect(() => {
+    savePayrollTemplates(templates);
+  }, [templates]);
+
+  const template = templates.find(t => t.id === selectedId) || templates[0];
+  const result = useMemo(() => buildPayrollExport(reports, template, period), [reports, template, period]);
+  const preview = result.content.split(/\r?\n/).slice(0, PREVIEW_LINES).join('\n');
+  const pendingReviews = countPendingReviews(reports);
+  const unresolvedDoIssues = countUnresolvedDoIssues(reports);
+  const draft = isPayrollDraft(reports);
+
+  const update = (changes: Partial<PayrollTemplate>) => {
+    setTemplates(templates.map(t => (t.id === template.id ? { ...t, ...changes } : t)));
+  };
+
+  const updateColumn = (index: number, changes: Partial<PayrollColumn>) => {
+    update({ columns: template.columns.map((c, i) => (i === index ? { ...c, ...changes } : c)) });
+  };
+
+  const moveColumn = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= template.columns.length) return;
+    const next = [...template.columns];
+    [next[index], next[target]] = [next[target], next[index]];
+    update({ columns: next });
+  };
+
+  const addTemplate = (base?: PayrollTemplate) => {
+    const added = base
+      ? { ...base, id: newTemplateId(), name: `${base.name} copy`, columns: base.columns.map(c => ({ ...c, id: newColumn(c.field).id })) }
+      : { ...defaultTemplate(), name: `Template ${templates.length + 1}` };
+    setTemplates([...templates, added]);
+    setSelectedId(added.id);
+  };
+
+  const removeTemplate = () => {
+    const rest = templates.filter(t => t.id !== template.id);
+    const next = rest.length > 0 ? rest : [defaultTemplate()];
+    setTemplates(next);
+    setSelectedId(next[0].id);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files && e.target.files[0]) {
+      setImportError(null);
+      try {
+        const imported = await parseTemplatesFile(e.target.files[0]);
+        // Same id replaces the saved template, so re-importing an edited file updates it
+        const ids = new Set(imported.map(t => t.id));
+        setTemplates([...templates.filter(t => !ids.has(t.id)), ...imported]);
+        setSelectedId(imported[0].id);
+      } catch (err) {
+        console.error(err);
+        setImportError('Failed to import templates. Use a JSON file exported from this screen.');
+      }
+      e.target.value = '';
+    }
+  };
+
+  const optionalNumber = (value: string): number | undefined =>
+    value === '' || isNaN(Number(value)) ? undefined : Math.max(0, Math.floor(Number(value)));
+
+  const fixed = template.format === 'FIXED';
+
+  return (
+    <div className="fixed inset-0 z-30 bg-slate-900/40 flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-6xl max-h-[90vh] flex flex-col overflow-hidden">
+        <div className="px-6 py-4 border-b border-slate-200 flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <Landmark className="text-blue-600 w-5 h-5" />
+            <h3 className="font-semibold text-slate-900">Payroll Export</h3>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+            <XCircle className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex flex-1 min-h-0">
+          {/* Saved templates */}
+          <div className="w-56 border-r border-slate-200 flex flex-col">
+            <div className="flex-1 overflow-y-auto divide-y divide-slate-100">
+              {templates.map(t => (
+                <button
+                  key={t.id}
+                  onClick={() => setSelectedId(t.id)}
+                  className={`w-full text-left px-4 py-3 ${t.id === template.id ? 'bg-blue-50 border-l-4 border-blue-600' : 'hover:bg-slate-50 border-l-4 border-transparent'}`}
+                >
+                  <p className="text-sm font-medium text-slate-800 truncate">{t.name || 'Untitled'}</p>
+                  <p className="text-xs text-slate-500">{t.format === 'CSV' ? 'CSV' : 'Fixed width'} · {t.columns.length} columns</p>
+                </button>
+              ))}
+            </div>
+            <div className="p-3 border-t border-slate-200 space-y-2">
+              <button onClick={() => addTemplate()} className="flex items-center gap-1 text-blue-600 hover:text-blue-800 text-sm font-medium">
+                <Plus className="w-4 h-4" />
+                New Template
+              </button>
+              <div className="flex gap-3 text-xs font-medium">
+                <label className="flex items-center gap-1 text-slate-500 hover:text-slate-700 cursor-pointer">
+                  <Upload className="w-3.5 h-3.5" />
+                  Import
+                  <input type="file" accept=".json" onChange={handleImport} className="hidden" />
+                </label>
+                <button onClick={() => exportTemplatesJSON(templates)} className="flex items-center gap-1 text-slate-500 hover:text-slate-700">
+                  <Download className="w-3.5 h-3.5" />
+                  Export
+                </button>
+              </div>
+              {importError && <p className="text-xs text-red-600">{importError}</p>}
+            </div>
+          </div>
+
+          {/* Template editor */}
+          <div className="flex-1 overflow-y-auto p-6 space-y-5">
+            <div className="flex items-end gap-3">
+              <label className="block flex-1">
+                <span className={labelClass}>Template name</span>
+                <input
+                  type="text"
+                  value={template.name}
+                  onChange={(e) => update({ name: e.target.value })}
+                  className={`${inputClass} font-medium`}
+                />
+              </label>
+              <button onClick={() => addTemplate(template)} title="Duplicate template" className="p-2 text-slate-400 hover:text-slate-600">
+                <Copy className="w-4 h-4" />
+              </button>
+              <button onClick={removeTemplate} title="Delete template" className="p-2 text-slate-400 hover:text-red-600">
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+              <label className="block">
+                <span className={labelClass}>Format</span>
+                <select value={template.format} onChange={(e) => update({ format: e.target.value as PayrollTemplate['format'] })} className={`${inputClass} bg-white`}>
+                  <option value="CSV">Delimited (CSV)</option>
+                  <option value="FIXED">Fixed width</option>
+                </select>
+              </label>
+              <label className="block">
+                <span className={labelClass}>Delimiter</span>
+                <select
+                  value={template.delimiter}
+                  disabled={fixed}
+                  onChange={(e) => update({ delimiter: e.target.value })}
+                  className={`${inputClass} bg-white disabled:bg-slate-50`}
+                >
+                  <option value=",">Comma</option>
+                  <option value=";">Semicolon</option>
+                  <option value={'\t'}>Tab</option>
+                  <option value="|">Pipe</option>
+                </select>
+              </label>
+              <label className="block">
+                <span className={labelClass}>Line ending</span>
+                <select value={template.lineEnding} onChange={(e) => update({ lineEnding: e.target.value as PayrollTemplate['lineEnding'] })} className={`${inputClass} bg-white`}>
+                  <option value="CRLF">Windows (CRLF)</option>
+                  <option value="LF">Unix (LF)</option>
+                </select>
+              </label>
+              <label className="block">
+                <span className={labelClass}>One line per</span>
+                <select value={template.grouping} onChange={(e) => update({ grouping: e.target.value as PayrollTemplate['grouping'] })} className={`${inputClass} bg-white`}>
+                  <option value="DRIVER">Driver</option>
+                  <option value="PAY_CODE">Driver and pay code</option>
+                </select>
+              </label>
+              <div className="flex flex-col justify-end gap-1 text-sm text-slate-600">
+                <label className={`flex items-center gap-2 ${fixed ? 'opacity-40' : ''}`}>
+                  <input type="checkbox" disabled={fixed} checked={template.includeHeader} onChange={(e) => update({ includeHeader: e.target.checked })} />
+                  Header row
+                </label>
+                <label className="flex items-center gap-2">
+                  <input type="checkbox" checked={template.skipZero} onChange={(e) => update({ skipZero: e.target.checked })} />
+                  Skip zero amounts
+                </label>
+              </div>
+            </div>
+
+            {/* Pay codes */}
+            <div className="space-y-2">
+              <p className={labelClass}>
+                Pay codes{template.grouping === 'DRIVER' && template.payCodes.length > 1 ? ' (only the first is used per driver)' : ''}
+              </p>
+              {template.payCodes.map((payCode, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <input
+                    type="text"
+                    value={payCode.code}
+                    onChange={(e) => update({ payCodes: template.payCodes.map((p, i) => (i === index ? { ...p, code: e.target.value } : p)) })}
+                    className={`w-32 ${inputClass} font-mono`}
+                  />
+                  <select
+                    value={payCode.source}
+                    onChange={(e) => update({ payCodes: template.payCodes.map((p, i) => (i === index ? { ...p, source: e.target.value as PayAmountSource } : p)) })}
+                    className={`w-64 ${inputClass} bg-white`}
+                  >
+                    {PAY_AMOUNT_SOURCES.map(s => <option key={s.source} value={s.source}>{s.label}</option>)}
+                  </select>
+                  <button onClick={() => update({ payCodes: template.payCodes.filter((_, i) => i !== index) })} className="p-1 text-slate-400 hover:text-red-600">
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+              <button
+                onClick={() => update({ payCodes: [...template.payCodes, { code: '', source: 'NEW_COMM' }] })}
+                className="flex items-center gap-1 text-blue-600 hover:text-blue-800 text-sm font-medium"
+              >
+                <Plus className="w-4 h-4" />
+                Add Pay Code
+              </button>
+            </div>
+
+            {/* Columns */}
+            <div className="space-y-2">
+              <p className={labelClass}>Columns</p>
+              <div className="border border-slate-200 rounded-lg divide-y divide-slate-100">
+                {template.columns.map((column, index) => (
+                  <div key={column.id} className="px-3 py-2 flex flex-wrap items-center gap-2">
+                    <span className="text-xs font-mono text-slate-400 w-5">{index + 1}.</span>
+                    <select
+                      value={column.field}
+                      onChange={(e) => updateColumn(index, { field: e.target.value as PayrollField })}
+                      className={`w-36 ${inputClass} bg-white`}
+                    >
+                      {PAYROLL_FIELDS.map(f => <option key={f.field} value={f.field}>{f.label}</option>)}
+                    </select>
+                    {column.field === 'TEXT' && (
+                      <input
+                        type="text"
+                        placeholder="Value"
+                        value={column.text || ''}
+                        onChange={(e) => updateColumn(index, { text: e.target.value || undefined })}
+                        className={`w-28 ${inputClass} font-mono`}
+                      />
+                    )}
+                    {!fixed && (
+                      <input
+                        type="text"
+                        placeholder="Header"
+                        value={column.header || ''}
+                        onChange={(e) => updateColumn(index, { header: e.target.value || undefined })}
+                        className={`w-32 ${inputClass}`}
+                      />
+                    )}
+                    {fixed && (
+                      <>
+                        <input
+                          type="number"
+                          min="0"
+                          placeholder="Width"
+                          value={column.width ?? ''}
+                          onChange={(e) => updateColumn(index, { width: optionalNumber(e.target.value) })}
+                          className={`w-20 ${inputClass} font-mono ${column.width === undefined ? 'border-amber-400 bg-amber-50' : ''}`}
+                        />
+                        <select
+                          value={column.align || 'LEFT'}
+                          onChange={(e) => updateColumn(index, { align: e.target.value === 'RIGHT' ? 'RIGHT' : undefined })}
+                          className={`w-24 ${inputClass} bg-white`}
+                        >
+                          <option value="LEFT">Left</option>
+                          <option value="RIGHT">Right</option>
+                        </select>
+                        <input
+                          type="text"
+                          maxLength={1}
+                          placeholder="Pad"
+                          title="Padding character (default space)"
+                          value={column.padChar || ''}
+                          onChange={(e) => updateColumn(index, { padChar: e.target.value || undefined })}
+                          className={`w-14 ${inputClass} font-mono`}
+                        />
+                      </>
+                    )}
+                    {NUMERIC_FIELDS.includes(column.field) && (
+                      <>
+                        <input
+                          type="number"
+                          min="0"
+                          placeholder="2 dp"
+                          value={column.decimals ?? ''}
+                          onChange={(e) => updateColumn(index, { decimals: optionalNumber(e.target.value) })}
+                          className={`w-20 ${inputClass} font-mono`}
+                        />
+                        <label className="flex items-center gap-1.5 text-xs text-slate-500">
+                          <input
+                            type="checkbox"
+                            checked={!!column.impliedDecimal}
+                            onChange={(e) => updateColumn(index, { impliedDecimal: e.target.checked || undefined })}
+                          />
+                          no decimal point
+                        </label>
+                      </>
+                    )}
+                    {DATE_FIELDS.includes(column.field) && (
+                      <select
+                        value={column.dateFormat || DATE_FORMATS[0]}
+                        onChange={(e) => updateColumn(index, { dateFormat: e.target.value })}
+                        className={`w-36 ${inputClass} bg-white font-mono`}
+                      >
+                        {DATE_FORMATS.map(f => <option key={f} value={f}>{f}</option>)}
+                      </select>
+                    )}
+                    <div className="ml-auto flex items-center">
+                      <button onClick={() => moveColumn(index, -1)} disabled={index === 0} className="p-1 text-slate-400 hover:text-slate-600 disabled:opacity-30">
+                        <ArrowUp className="w-4 h-4" />
+                      </button>
+                      <button onClick={() => moveColumn(index, 1)} disabled={index === template.columns.length - 1} className="p-1 text-slate-400 hover:text-slate-600 disabled:opacity-30">
+                        <ArrowDown className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => update({ columns: template.columns.filter((_, i) => i !== index) })}
+                        disabled={template.columns.length === 1}
+                        className="p-1 text-slate-400 hover:text-red-600 disabled:opacity-30"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+              <button
+                onClick={() => update({ columns: [...template.columns, newColumn('TEXT')] })}
+                className="flex items-center gap-1 text-blue-600 hover:text-blue-800 text-sm font-medium"
+              >
+                <Plus className="w-4 h-4" />
+                Add Column
+              </button>
+            </div>
+
+            {/* Output */}
+            <div className="space-y-2 pt-4 border-t border-slate-200">
+              <div className="flex items-end gap-3">
+                <label className="block">
+                  <span className={labelClass}>Period start</span>
+                  <input type="date" value={period.start} onChange={(e) => setPeriod({ ...period, start: e.target.value })} className={inputClass} />
+                </label>
+                <label className="block">
+                  <span className={labelClass}>Period end</span>
+                  <input type="date" value={period.end} onChange={(e) => setPeriod({ ...period, end: e.target.value })} className={inputClass} />
+                </label>
+                <span className="text-xs text-slate-500 pb-2">
+                  {result.lineCount} line{result.lineCount === 1 ? '' : 's'} for {reports.length} driver{reports.length === 1 ? '' : 's'}
+                </span>
+              </div>
+              <pre className="bg-slate-900 text-slate-100 text-xs font-mono p-3 rounded-lg overflow-x-auto whitespace-pre">
+                {preview || ' '}
+                {result.lineCount > PREVIEW_LINES && `\n… ${result.lineCount - PREVIEW_LINES} more`}
+              </pre>
+              {result.errors.length > 0 && (
+                <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-xs text-red-800 space-y-1 max-h-32 overflow-y-auto">
+                  <p className="flex items-center gap-1.5 font-medium">
+                    <AlertTriangle className="w-3.5 h-3.5" />
+                    Fix the template before downloading:
+                  </p>
+                  {result.errors.map((e, i) => <p key={i}>{e}</p>)}
+                </div>
+              )}
+              {(draft || result.warnings.length > 0) && (
+                <div className="bg-amber-50 border border-amber-200 rounded-lg p-3 text-xs text-amber-800 space-y-1 max-h-32 overflow-y-auto">
+                  {pendingReviews > 0 && (
+                    <p className="flex items-center gap-1.5 font-medium">
+                      <AlertTriangle className="w-3.5 h-3.5" />
+                      {pendingReviews} fuzzy match(es) still pending review; totals are not final.
+                    </p>
+                  )}
+                  {unresolvedDoIssues > 0 && (
+                    <p className="flex items-center gap-1.5 font-medium">
+                      <AlertTriangle className="w-3.5 h-3.5" />
+                      {unresolvedDoIssues} DO issue(s) unresolved; those trips are left out of the amounts.
+                    </p>
+                  )}
+                  {draft && (
+                    <label className="flex items-center gap-2 font-medium">
+                      <input type="checkbox" checked={draftConfirmed} onChange={(e) => setDraftConfirmed(e.target.checked)} />
+                      Download anyway as a DRAFT file
+                    </label>
+                  )}
+                  {result.warnings.map((w, i) => <p key={i}>{w}</p>)}
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+
+        <div className="px-6 py-4 border-t border-slate-200 bg-slate-50 flex justify-end gap-2">
+          <button onClick={onClose} className="text-slate-500 hover:text-slate-700 font-medium text-sm px-3">
+            Close
+          </button>
+          <button
+            onClick={() => downloadPayrollExport(reports, template, period)}
+            disabled={result.lineCount === 0 || result.errors.length > 0 || (draft && !draftConfirmed)}
+            className="flex items-center gap-2 bg-blue-600 hover:bg-blue-700 disabled:opacity-40 text-white px-4 py-2 rounded-lg text-sm font-medium"
+          >
+            <Download className="w-4 h-4" />
+            Download {fixed ? 'File' : 'CSV'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PayrollExportPanel;
@@ -0,0 +1,114 @@
+import React, { useMemo, useState } from 'react';
+import { FileArchive, Search, XCircle } from 'lucide-react';
+import { DriverReport, generatePayslipZip, reportPeriod } from '../utils';
+
+interface PayslipExportPanelProps {
+  reports: DriverReport[];
+  initialSearch: string; // Sidebar search; the drivers it matches start selected
+  processedAt?: Date;
+  onClose: () => void;
+}
+
+const matches = (report: DriverReport, term: string) =>
+  [report.driverName, report.employeeId || ''].some(v => v.toLowerCase().includes(term.toLowerCase()));
+
+const PayslipExportPanel: React.FC<PayslipExportPanelProps> = ({ reports, initialSearch, processedAt, onClose }) => {
+  const [search, setSearch] = useState(initialSearch);
+  const [selected, setSelected] = useState<Set<string>>(
+    () => new Set(reports.filter(r => matches(r, initialSearch)).map(r => r.driverName))
+  );
+  const [includeSummary, setIncludeSummary] = useState(true);
+
+  const visible = useMemo(() => reports.filter(r => matches(r, search)), [reports, search]);
+  const chosen = reports.filter(r => selected.has(r.driverName));
+
+  const toggle = (name: string) => {
+    const next = new Set(selected);
+    if (next.has(name)) next.delete(name); else next.add(name);
+    setSelected(next);
+  };
+
+  // Select or clear only the drivers the search shows
+  const setVisible = (on: boolean) => {
+    const next = new Set(selected);
+    visible.forEach(r => (on ? next.add(r.driverName) : next.delete(r.driverName)));
+    setSelected(next);
+  };
+
+  const handleDownload = () => {
+    generatePayslipZip(chosen, includeSummary, processedAt);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-30 bg-slate-900/40 flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-lg max-h-[85vh] flex flex-col overflow-hidden">
+        <div className="px-6 py-4 border-b border-slate-200 flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <FileArchive className="text-blue-600 w-5 h-5" />
+            <h3 className="font-semibold text-slate-900">Driver Payslips</h3>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+            <XCircle className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-3 border-b border-slate-200">
+          <p className="text-sm text-slate-500">
+            One PDF per driver, named by driver and period, in a single ZIP.
+          </p>
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400" />
+            <input
+              type="text"
+              placeholder="Search drivers..."
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              className="w-full pl-9 pr-4 py-2 bg-slate-50 border border-slate-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500"
+            />
+          </div>
+          <div className="flex items-center justify-between text-xs">
+            <span className="text-slate-500">{chosen.length} of {reports.length} selected</span>
+            <div className="flex gap-3 font-medium">
+              <button onClick={() => setVisible(true)} className="text-blue-600 hover:text-blue-800">Select shown</button>
+              <button onClick={() => setVisible(false)} className="text-slate-500 hover:text-slate-700">Clear shown</button>
+            </div>
+          </div>
+        </div>
+
+        <div className="overflow-y-auto divide-y divide-slate-100 flex-1">
+          {visible.map(r => (
+            <label key={r.driverName} className="px-6 py-2 flex items-center gap-3 hover:bg-slate-50 cursor-pointer">
+              <input type="checkbox" checked={selected.has(r.driverName)} onChange={() => toggle(r.driverName)} />
+              <span className="flex-1 text-sm text-slate-800">
+                {r.driverName}
+                {r.employeeId && <span className="ml-2 text-xs text-slate-400 font-mono">{r.employeeId}</span>}
+              </span>
+              <span className="text-xs text-slate-400 font-mono">{r.transactions.length} trips · {r.totalNewComm.toFixed(2)}</span>
+            </label>
+          ))}
+          {visible.length === 0 && (
+            <div className="p-8 text-center text-slate-400 text-sm">No drivers match "{search}".</div>
+          )}
+        </div>
+
+        <div className="px-6 py-4 border-t border-slate-200 flex items-center justify-between gap-4">
+          <label className="flex items-center gap-2 text-sm text-slate-600">
+            <input type="checkbox" checked={includeSummary} onChange={(e) => setIncludeSummary(e.target.checked)} />
+            Add fleet summary PDF
+          </label>
+          <button
+            onClick={handleDownload}
+            disabled={chosen.length === 0}
+            className="flex items-center gap-2 bg-slate-900 hover:bg-slate-800 disabled:opacity-40 text-white px-4 py-2 rounded-lg text-sm font-medium"
+          >
+            <FileArchive className="w-4 h-4" />
+            Download ZIP{chosen.length > 0 ? ` (${reportPeriod(chosen)})` : ''}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PayslipExportPanel;
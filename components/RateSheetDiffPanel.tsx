@@ -0,0 +1,268 @@
+import React, { useMemo, useState } from 'react';
+import { ArrowRight, ChevronRight, Columns, FileDiff, Upload, XCircle } from 'lucide-react';
+import {
+  ColumnMapping, CommissionConfig, ConflictPolicy, DriverReport, LocationAliasMap, RateData, RateSheetDiff,
+  RateSheetTable, RateSheetValidity, RouteChangeKind, buildRateData, diffRateSheets, readRateSheet, suggestColumnMapping
+} from '../utils';
+import { mappingWithoutWizard, saveMapping } from '../rateSheetLayouts';
+import ColumnMappingWizard from './ColumnMappingWizard';
+
+interface RateSheetDiffPanelProps {
+  rateData: RateData;
+  currentSheet: string;
+  reports: DriverReport[];
+  aliases: LocationAliasMap;
+  config: CommissionConfig;
+  policy: ConflictPolicy;
+  validity: RateSheetValidity;     // Sheet-wide dates of the current sheet; the starting point for the new one
+  onSwitch: (table: RateSheetTable, mapping: ColumnMapping, validity: RateSheetValidity, rateData: RateData, repriced: DriverReport[]) => void;
+  onClose: () => void;
+}
+
+interface LoadedSheet {
+  table: RateSheetTable;
+  mapping: ColumnMapping;
+  validity: RateSheetValidity;
+  rateData: RateData;
+  diff: RateSheetDiff;
+}
+
+const kindStyles: Record<RouteChangeKind, string> = {
+  ADDED: 'bg-emerald-100 text-emerald-700',
+  REMOVED: 'bg-red-100 text-red-700',
+  REPRICED: 'bg-amber-100 text-amber-700'
+};
+
+const signed = (value: number) => `${value > 0 ? '+' : ''}${value.toFixed(2)}`;
+const impactColor = (value: number) => (value < 0 ? 'text-red-600' : value > 0 ? 'text-emerald-600' : 'text-slate-400');
+
+const RateSheetDiffPanel: React.FC<RateSheetDiffPanelProps> = ({
+  rateData, currentSheet, reports, aliases, config, policy, validity, onSwitch, onClose
+}) => {
+  const [loaded, setLoaded] = useState<LoadedSheet | null>(null);
+  const [mapping, setMapping] = useState<{ table: RateSheetTable; initial: Partial<ColumnMapping>; validity: RateSheetValidity } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [kindFilter, setKindFilter] = useState<RouteChangeKind | 'ALL'>('ALL');
+  const [affectingOnly, setAffectingOnly] = useState(false);
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  const load = (table: RateSheetTable, columns: ColumnMapping, sheetValidity: RateSheetValidity) => {
+    try {
+      const next = buildRateData(table, columns, sheetValidity, policy);
+      setLoaded({ table, mapping: columns, validity: sheetValidity, rateData: next, diff: diffRateSheets(rateData, next, reports, aliases, config) });
+      setExpanded(null);
+    } catch (err) {
+      console.error(err);
+      setLoaded(null);
+      setError(err instanceof Error ? err.message : `Failed to read ${table.fileName}.`);
+    }
+  };
+
+  // A layout seen before loads straight away; a new one goes through the column wizard first
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setError(null);
+    try {
+      const table = await readRateSheet(file);
+      const columns = mappingWithoutWizard(table.headers);
+      if (columns) load(table, columns, validity);
+      else setMapping({ table, initial: suggestColumnMapping(table.headers), validity });
+    } catch (err) {
+      console.error(err);
+      setLoaded(null);
+      setError(err instanceof Error ? err.message : `Failed to read ${file.name}.`);
+    }
+  };
+
+  const diff = loaded?.diff;
+  const counts = useMemo(() => {
+    const byKind: Record<RouteChangeKind, number> = { ADDED: 0, REMOVED: 0, REPRICED: 0 };
+    diff?.changes.forEach(c => { byKind[c.kind] += 1; });
+    return byKind;
+  }, [diff]);
+
+  const visible = diff
+    ? diff.changes.filter(c => (kindFilter === 'ALL' || c.kind === kindFilter) && (!affectingOnly || c.trips > 0))
+    : [];
+  const net = diff ? diff.comparison.totalAfter - diff.comparison.totalBefore : 0;
+  const movers = diff ? diff.comparison.drivers.filter(d => Math.abs(d.commAfter - d.commBefore) > 0.005) : [];
+
+  return (
+    <div className="fixed inset-0 z-30 bg-slate-900/40 flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-6xl max-h-[90vh] flex flex-col overflow-hidden">
+        <div className="px-6 py-4 border-b border-slate-200 flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <FileDiff className="text-blue-600 w-5 h-5" />
+            <h3 className="font-semibold text-slate-900">Rate Sheet Changes</h3>
+            <span className="text-sm text-slate-500 font-mono">
+              {currentSheet}{loaded && <> → {loaded.table.fileName}</>}
+            </span>
+          </div>
+          <div className="flex items-center gap-3">
+            <label className="flex items-center gap-1.5 bg-white hover:bg-slate-50 text-slate-700 border border-slate-200 px-3 py-1.5 rounded-lg text-xs font-medium cursor-pointer">
+              <Upload className="w-3.5 h-3.5" />
+              {loaded ? 'Choose another CSV' : 'Load new rate CSV'}
+              <input type="file" accept=".csv" onChange={handleFile} className="hidden" />
+            </label>
+            {loaded && (
+              <button
+                onClick={() => setMapping({ table: loaded.table, initial: loaded.mapping, validity: loaded.validity })}
+                className="flex items-center gap-1.5 bg-white hover:bg-slate-50 text-slate-700 border border-slate-200 px-3 py-1.5 rounded-lg text-xs font-medium"
+              >
+                <Columns className="w-3.5 h-3.5" />
+                Columns & dates
+              </button>
+            )}
+            {loaded && (
+              <button
+                onClick={() => onSwitch(loaded.table, loaded.mapping, loaded.validity, loaded.rateData, loaded.diff.repriced)}
+                className="flex items-center gap-1.5 bg-blue-600 hover:bg-blue-700 text-white px-3 py-1.5 rounded-lg text-xs font-medium"
+              >
+                <ArrowRight className="w-3.5 h-3.5" />
+                Switch to new sheet
+              </button>
+            )}
+            <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+              <XCircle className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+
+        {error && <p className="px-6 pt-3 text-xs text-red-600">{error}</p>}
+
+        {diff ? (
+          <div className="overflow-y-auto">
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 p-6">
+              <div className="bg-slate-50 rounded-xl p-4">
+                <p className="text-xs font-semibold uppercase tracking-wider text-slate-500 mb-1">Payroll Impact</p>
+                <p className={`text-2xl font-bold ${impactColor(net)}`}>{signed(net)}</p>
+                <p className="text-xs text-slate-500">{diff.comparison.totalBefore.toFixed(2)} → {diff.comparison.totalAfter.toFixed(2)}</p>
+              </div>
+              <div className="bg-slate-50 rounded-xl p-4">
+                <p className="text-xs font-semibold uppercase tracking-wider text-slate-500 mb-1">Routes</p>
+                <p className="text-sm text-slate-700">
+                  <span className="text-emerald-600 font-medium">{counts.ADDED} added</span>,{' '}
+                  <span className="text-red-600 font-medium">{counts.REMOVED} removed</span>,{' '}
+                  <span className="text-amber-600 font-medium">{counts.REPRICED} re-priced</span>
+                </p>
+                <p className="text-xs text-slate-500">{diff.unchangedRoutes} unchanged</p>
+              </div>
+              <div className="bg-slate-50 rounded-xl p-4 md:col-span-2">
+                <p className="text-xs font-semibold uppercase tracking-wider text-slate-500 mb-1">Drivers Affected ({movers.length})</p>
+                <div className="flex flex-wrap gap-x-3 gap-y-1 text-xs max-h-16 overflow-y-auto">
+                  {movers.length === 0 && <span className="text-slate-400">No loaded driver's pay changes.</span>}
+                  {movers.map(d => (
+                    <span key={d.driverName} className="whitespace-nowrap">
+                      {d.driverName} <span className={`font-mono font-medium ${impactColor(d.commAfter - d.commBefore)}`}>{signed(d.commAfter - d.commBefore)}</span>
+                    </span>
+                  ))}
+                </div>
+                {Math.abs(diff.otherImpact) > 0.005 && (
+                  <p className="text-xs text-slate-500 mt-1">
+                    {signed(diff.otherImpact)} comes from trips whose route match changed without their route changing.
+                  </p>
+                )}
+              </div>
+            </div>
+
+            <div className="px-6 pb-2 flex items-center justify-between">
+              <div className="flex gap-1">
+                {(['ALL', 'REPRICED', 'ADDED', 'REMOVED'] as const).map(kind => (
+                  <button
+                    key={kind}
+                    onClick={() => setKindFilter(kind)}
+                    className={`px-2.5 py-1 rounded-lg text-xs font-medium ${kindFilter === kind ? 'bg-slate-900 text-white' : 'text-slate-500 hover:bg-slate-100'}`}
+                  >
+                    {kind === 'ALL' ? 'All' : kind.charAt(0) + kind.slice(1).toLowerCase()}
+                  </button>
+                ))}
+              </div>
+              <label className="flex items-center gap-2 text-sm text-slate-600">
+                <input type="checkbox" checked={affectingOnly} onChange={(e) => setAffectingOnly(e.target.checked)} />
+                Only routes used by loaded trips
+              </label>
+            </div>
+
+            <table className="w-full text-sm">
+              <thead className="bg-slate-50 text-slate-500 text-xs uppercase tracking-wider">
+                <tr>
+                  <th className="px-6 py-2 text-left">Route</th>
+                  <th className="px-3 py-2 text-right">Old Rate</th>
+                  <th className="px-3 py-2 text-right">New Rate</th>
+                  <th className="px-3 py-2 text-right">Trips</th>
+                  <th className="px-6 py-2 text-right">Impact</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {visible.map(c => {
+                  const isOpen = expanded === c.key;
+                  return (
+                    <React.Fragment key={c.key}>
+                      <tr
+                        onClick={() => c.drivers.length > 0 && setExpanded(isOpen ? null : c.key)}
+                        className={c.drivers.length > 0 ? 'hover:bg-slate-50 cursor-pointer' : ''}
+                      >
+                        <td className="px-6 py-2 text-slate-800">
+                          <span className="inline-flex items-center gap-2">
+                            <ChevronRight className={`w-3.5 h-3.5 transition-transform ${c.drivers.length > 0 ? 'text-slate-400' : 'text-transparent'} ${isOpen ? 'rotate-90' : ''}`} />
+                            <span className="font-mono">{c.key.replace('|', ' → ')}</span>
+                            <span className={`px-1.5 py-0.5 rounded text-[10px] font-medium ${kindStyles[c.kind]}`}>{c.kind}</span>
+                          </span>
+                        </td>
+                        <td className="px-3 py-2 text-right font-mono text-slate-600">{c.before?.toFixed(2) ?? '—'}</td>
+                        <td className="px-3 py-2 text-right font-mono text-slate-600">{c.after?.toFixed(2) ?? '—'}</td>
+                        <td className="px-3 py-2 text-right font-mono text-slate-600">{c.trips || ''}</td>
+                        <td className={`px-6 py-2 text-right font-mono font-medium ${impactColor(c.impact)}`}>{c.trips > 0 ? signed(c.impact) : ''}</td>
+                      </tr>
+                      {isOpen && (
+                        <tr>
+                          <td colSpan={5} className="bg-slate-50/60 px-12 py-2">
+                            <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs">
+                              {c.drivers.map(d => (
+                                <span key={d.driverName}>
+                                  {d.driverName} <span className={`font-mono font-medium ${impactColor(d.impact)}`}>{signed(d.impact)}</span>
+                                </span>
+                              ))}
+                            </div>
+                          </td>
+                        </tr>
+                      )}
+                    </React.Fragment>
+                  );
+                })}
+                {visible.length === 0 && (
+                  <tr>
+                    <td colSpan={5} className="p-12 text-center text-slate-400 text-sm">No route changes to show.</td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <div className="p-12 text-center text-slate-400 text-sm">
+            Load the new rate CSV to see which routes were added, removed or re-priced, and what each change does to the loaded drivers.
+          </div>
+        )}
+      </div>
+
+      {mapping && (
+        <ColumnMappingWizard
+          table={mapping.table}
+          initialMapping={mapping.initial}
+          initialValidity={mapping.validity}
+          policy={policy}
+          onConfirm={(columns, sheetValidity) => {
+            saveMapping(mapping.table.headers, columns);
+            setMapping(null);
+            load(mapping.table, columns, sheetValidity);
+          }}
+          onCancel={() => setMapping(null)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default RateSheetDiffPanel;
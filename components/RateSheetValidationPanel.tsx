@@ -0,0 +1,118 @@
+import React, { useState } from 'react';
+import { AlertTriangle, CheckCircle, ChevronDown, ChevronRight, ShieldCheck } from 'lucide-react';
+import { ConflictPolicy, RateSheetValidation } from '../utils';
+
+interface RateSheetValidationPanelProps {
+  validation: RateSheetValidation;
+  policy: ConflictPolicy;
+  onPolicyChange: (policy: ConflictPolicy) => void;
+}
+
+const POLICIES: { value: ConflictPolicy; label: string }[] = [
+  { value: 'FIRST', label: 'First row wins' },
+  { value: 'LAST', label: 'Last row wins' },
+  { value: 'HIGHEST', label: 'Highest rate wins' },
+  { value: 'BLOCK', label: 'Block the sheet' }
+];
+
+const MAX_LISTED = 50;
+
+const Section: React.FC<{ title: string; count: number; tone: string; children: React.ReactNode }> = ({ title, count, tone, children }) => {
+  const [open, setOpen] = useState(false);
+  if (count === 0) return null;
+
+  return (
+    <div className="border-t border-slate-100">
+      <button onClick={() => setOpen(!open)} className="w-full flex items-center justify-between px-6 py-3 hover:bg-slate-50 text-sm">
+        <span className="flex items-center gap-2 font-medium text-slate-700">
+          {open ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+          {title}
+        </span>
+        <span className={`px-2 py-0.5 rounded text-xs font-medium ${tone}`}>{count}</span>
+      </button>
+      {open && (
+        <div className="px-6 pb-4 space-y-1 text-xs font-mono text-slate-600 max-h-48 overflow-y-auto">
+          {children}
+          {count > MAX_LISTED && <p className="text-slate-400">…and {count - MAX_LISTED} more</p>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const RateSheetValidationPanel: React.FC<RateSheetValidationPanelProps> = ({ validation, policy, onPolicyChange }) => {
+  const { conflicts, skipped, suspicious, nearDuplicates } = validation;
+  const issueCount = conflicts.length + skipped.length + suspicious.length + nearDuplicates.length;
+
+  return (
+    <div className="mt-8 bg-white rounded-2xl border border-slate-200 shadow-sm overflow-hidden">
+      <div className="px-6 py-4 flex items-center justify-between bg-slate-50/50">
+        <div className="flex items-center gap-2">
+          <ShieldCheck className="text-blue-600 w-5 h-5" />
+          <h3 className="font-semibold text-slate-900">Rate Sheet Validation</h3>
+          <span className="text-sm text-slate-500">
+            {validation.usableRows} of {validation.totalRows} rows usable
+          </span>
+        </div>
+        {issueCount === 0 ? (
+          <span className="flex items-center gap-1.5 text-sm text-emerald-600 font-medium">
+            <CheckCircle className="w-4 h-4" />
+            No issues found
+          </span>
+        ) : (
+          <span className="flex items-center gap-1.5 text-sm text-amber-600 font-medium">
+            <AlertTriangle className="w-4 h-4" />
+            {issueCount} issue{issueCount === 1 ? '' : 's'}
+          </span>
+        )}
+      </div>
+
+      {conflicts.length > 0 && (
+        <div className="px-6 py-3 border-t border-slate-100 flex items-center justify-between bg-red-50/40">
+          <span className="text-sm text-red-800">
+            {conflicts.length} route{conflicts.length === 1 ? ' has' : 's have'} conflicting rates.
+          </span>
+          <label className="flex items-center gap-2 text-sm text-slate-600">
+            Resolve by
+            <select
+              value={policy}
+              onChange={(e) => onPolicyChange(e.target.value as ConflictPolicy)}
+              className="px-2 py-1 text-sm border border-slate-300 rounded-lg bg-white focus:ring-2 focus:ring-blue-500 outline-none"
+            >
+              {POLICIES.map(p => <option key={p.value} value={p.value}>{p.label}</option>)}
+            </select>
+          </label>
+        </div>
+      )}
+
+      <Section title="Conflicting duplicate routes" count={conflicts.length} tone="bg-red-100 text-red-700">
+        {conflicts.slice(0, MAX_LISTED).map(c => (
+          <p key={`${c.key}#${c.window || ''}`}>
+            {c.key.replace('|', ' → ')}{c.window ? ` (${c.window})` : ''}:{' '}
+            {c.entries.map(e => `line ${e.line} = ${e.rate}`).join(', ')}
+          </p>
+        ))}
+      </Section>
+
+      <Section title="Skipped rows" count={skipped.length} tone="bg-slate-100 text-slate-600">
+        {skipped.slice(0, MAX_LISTED).map(r => (
+          <p key={r.line}>line {r.line}: {r.reason}</p>
+        ))}
+      </Section>
+
+      <Section title="Suspicious rates" count={suspicious.length} tone="bg-amber-100 text-amber-700">
+        {suspicious.slice(0, MAX_LISTED).map((r, i) => (
+          <p key={`${r.line}-${i}`}>line {r.line}: {r.key.replace('|', ' → ')} = {r.rate} ({r.reason})</p>
+        ))}
+      </Section>
+
+      <Section title="Near-duplicate location spellings" count={nearDuplicates.length} tone="bg-blue-100 text-blue-700">
+        {nearDuplicates.slice(0, MAX_LISTED).map(d => (
+          <p key={`${d.first}|${d.second}`}>{d.first} ≈ {d.second} ({Math.round(d.score * 100)}%)</p>
+        ))}
+      </Section>
+    </div>
+  );
+};
+
+export default RateSheetValidationPanel;
@@ -0,0 +1,78 @@
+import React from 'react';
+import { Download, FolderOpen, History, Trash2, Upload } from 'lucide-react';
+import { SessionSummary } from '../sessions';
+
+interface SessionHistoryProps {
+  sessions: SessionSummary[];
+  onOpen: (id: string) => void;
+  onExport: (id: string) => void;
+  onDelete: (id: string) => void;
+  onImport: (file: File) => void;
+}
+
+const formatDate = (iso: string) => new Date(iso).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+const SessionHistory: React.FC<SessionHistoryProps> = ({ sessions, onOpen, onExport, onDelete, onImport }) => {
+  const handleImport = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files && e.target.files[0]) {
+      onImport(e.target.files[0]);
+      e.target.value = '';
+    }
+  };
+
+  return (
+    <div className="mt-10 bg-white rounded-2xl border border-slate-200 shadow-sm overflow-hidden">
+      <div className="px-6 py-4 border-b border-slate-200 flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <History className="text-blue-600 w-5 h-5" />
+          <h3 className="font-semibold text-slate-900">Previous Sessions</h3>
+          <span className="text-sm text-slate-500">Saved in this browser</span>
+        </div>
+        <label className="flex items-center gap-1.5 text-xs font-medium text-slate-500 hover:text-blue-600 cursor-pointer transition-colors">
+          <Upload className="w-3.5 h-3.5" />
+          Import Session
+          <input type="file" accept=".json" onChange={handleImport} className="hidden" />
+        </label>
+      </div>
+
+      {sessions.length === 0 ? (
+        <div className="p-8 text-center text-slate-400 text-sm">
+          Processed runs are saved here automatically so they can be reopened later.
+        </div>
+      ) : (
+        <div className="divide-y divide-slate-100 max-h-80 overflow-y-auto">
+          {sessions.map(s => (
+            <div key={s.id} className="px-6 py-3 flex items-center justify-between gap-4 hover:bg-slate-50">
+              <div className="min-w-0">
+                <p className="text-sm font-medium text-slate-900 truncate">{s.name}</p>
+                <p className="text-xs text-slate-500 truncate">
+                  {formatDate(s.processedAt)} · {s.driverCount} driver{s.driverCount === 1 ? '' : 's'}, {s.tripCount} trip{s.tripCount === 1 ? '' : 's'}
+                </p>
+                <p className="text-xs text-slate-400 font-mono truncate" title={[s.rateSheet, ...s.sourceFiles].join(', ')}>
+                  {s.rateSheet} · {s.sourceFiles.join(', ')}
+                </p>
+              </div>
+              <div className="flex items-center gap-3 flex-shrink-0">
+                <button
+                  onClick={() => onOpen(s.id)}
+                  className="flex items-center gap-1.5 bg-blue-600 hover:bg-blue-700 text-white px-3 py-1.5 rounded-lg text-xs font-medium transition-colors"
+                >
+                  <FolderOpen className="w-3.5 h-3.5" />
+                  Open
+                </button>
+                <button onClick={() => onExport(s.id)} title="Export as a file" className="text-slate-400 hover:text-slate-600">
+                  <Download className="w-4 h-4" />
+                </button>
+                <button onClick={() => onDelete(s.id)} title="Delete session" className="text-slate-400 hover:text-red-600">
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SessionHistory;
@@ -0,0 +1,188 @@
+import React, { useMemo, useState } from 'react';
+import { AlertTriangle, ChevronRight, Download, Search, Truck } from 'lucide-react';
+import { TruckReport, isHeldBack, toISODate } from '../utils';
+
+interface TruckViewProps {
+  trucks: TruckReport[];
+  toggle: React.ReactNode;          // Sidebar mode switch, shared with the driver list
+  onSelectDriver: (driverName: string) => void;
+  onExport: () => void;
+}
+
+const conflictStyles = {
+  DUPLICATE_DO: 'bg-red-100 text-red-700',
+  SHARED_DATE: 'bg-amber-100 text-amber-700'
+};
+
+const TruckView: React.FC<TruckViewProps> = ({ trucks, toggle, onSelectDriver, onExport }) => {
+  const [selected, setSelected] = useState<string | null>(null);
+  const [search, setSearch] = useState('');
+  const [conflictsOnly, setConflictsOnly] = useState(false);
+
+  const visible = useMemo(() => {
+    const term = search.toLowerCase();
+    return trucks.filter(t =>
+      (!conflictsOnly || t.conflicts.length > 0) &&
+      (t.truck.toLowerCase().includes(term) || t.drivers.some(d => d.driverName.toLowerCase().includes(term)))
+    );
+  }, [trucks, search, conflictsOnly]);
+
+  const truck = trucks.find(t => t.truck === selected) || visible[0] || trucks[0];
+  const conflictDates = new Set(truck?.conflicts.map(c => toISODate(c.date) || c.date));
+  const withConflicts = trucks.filter(t => t.conflicts.length > 0).length;
+
+  return (
+    <>
+      {/* Sidebar: Truck List */}
+      <div className="lg:w-80 bg-white rounded-xl border border-slate-200 shadow-sm overflow-hidden flex flex-col">
+        <div className="p-4 bg-slate-50 border-b border-slate-200 space-y-3">
+          {toggle}
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400" />
+            <input
+              type="text"
+              placeholder="Search trucks or drivers..."
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              className="w-full pl-9 pr-3 py-2 text-sm border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition-shadow"
+            />
+          </div>
+          {withConflicts > 0 && (
+            <label className="flex items-center gap-2 text-xs text-slate-600">
+              <input type="checkbox" checked={conflictsOnly} onChange={(e) => setConflictsOnly(e.target.checked)} />
+              Only trucks with conflicts ({withConflicts})
+            </label>
+          )}
+        </div>
+        <div className="overflow-y-auto flex-1">
+          {visible.map(t => {
+            const active = truck?.truck === t.truck;
+            const duplicates = t.conflicts.some(c => c.kind === 'DUPLICATE_DO');
+            return (
+              <button
+                key={t.truck}
+                onClick={() => setSelected(t.truck)}
+                className={`w-full text-left p-4 border-b border-slate-100 hover:bg-slate-50 transition-all relative ${active ? 'bg-blue-50/60' : ''}`}
+              >
+                <div className="flex justify-between items-start mb-1">
+                  <span className={`font-medium font-mono ${active ? 'text-blue-700' : 'text-slate-700'}`}>{t.truck}</span>
+                  {t.conflicts.length > 0 && (
+                    <span title={`${t.conflicts.length} date(s) credited to more than one driver`} className={`w-2 h-2 rounded-full mt-1.5 ${duplicates ? 'bg-red-500' : 'bg-amber-400'}`} />
+                  )}
+                </div>
+                <div className="flex justify-between items-center text-xs text-slate-500">
+                  <span>{t.trips} trips · {t.drivers.length} driver{t.drivers.length === 1 ? '' : 's'}</span>
+                  {active && <ChevronRight className="w-4 h-4 text-blue-500" />}
+                </div>
+                {active && <div className="absolute left-0 top-0 bottom-0 w-1 bg-blue-600" />}
+              </button>
+            );
+          })}
+          {visible.length === 0 && (
+            <div className="p-8 text-center text-slate-400">
+              <p className="text-sm">No trucks found.</p>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Truck Detail */}
+      <div className="flex-1 bg-white rounded-xl border border-slate-200 shadow-sm overflow-hidden flex flex-col">
+        {truck ? (
+          <>
+            <div className="p-6 border-b border-slate-200 flex justify-between items-end bg-slate-50/30">
+              <div>
+                <h2 className="text-2xl font-bold text-slate-900 mb-1 flex items-center gap-2">
+                  <Truck className="w-6 h-6 text-slate-400" />
+                  <span className="font-mono">{truck.truck}</span>
+                </h2>
+                <p className="text-sm text-slate-500">
+                  {truck.trips} trips · {truck.weight.toFixed(2)} weight hauled
+                  {truck.heldBackTrips > 0 && <> · {truck.heldBackTrips} not counted (DO issues)</>}
+                </p>
+                <div className="flex flex-wrap gap-2 mt-3">
+                  {truck.drivers.map(d => (
+                    <button
+                      key={d.driverName}
+                      onClick={() => onSelectDriver(d.driverName)}
+                      title="Open this driver"
+                      className="px-2.5 py-1 rounded-lg text-xs font-medium bg-white border border-slate-200 text-slate-700 hover:border-blue-300 hover:text-blue-700"
+                    >
+                      {d.driverName}{d.employeeId && <span className="ml-1 font-mono text-slate-400">{d.employeeId}</span>}
+                      <span className="ml-1.5 text-slate-400">{d.trips} trips, {d.dates.length} day{d.dates.length === 1 ? '' : 's'}</span>
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <div className="text-right">
+                <p className="text-sm text-slate-500 mb-1 font-medium">Commission Paid</p>
+                <p className="text-3xl font-bold text-slate-900">${truck.totalNewComm.toFixed(2)}</p>
+                <p className="text-xs text-slate-400 line-through">${truck.totalOriginalComm.toFixed(2)}</p>
+                <button
+                  onClick={onExport}
+                  className="mt-2 inline-flex items-center gap-1.5 bg-white hover:bg-slate-50 text-slate-700 border border-slate-200 px-3 py-1.5 rounded-lg text-xs font-medium"
+                >
+                  <Download className="w-3.5 h-3.5" />
+                  Export Trucks CSV
+                </button>
+              </div>
+            </div>
+
+            {truck.conflicts.length > 0 && (
+              <div className="px-6 py-3 border-b border-slate-200 bg-red-50/40 space-y-1">
+                {truck.conflicts.map(c => (
+                  <p key={c.date} className="flex items-center gap-2 text-xs text-slate-700">
+                    <AlertTriangle className={`w-3.5 h-3.5 ${c.kind === 'DUPLICATE_DO' ? 'text-red-600' : 'text-amber-500'}`} />
+                    <span className={`px-1.5 py-0.5 rounded text-[10px] font-medium ${conflictStyles[c.kind]}`}>
+                      {c.kind === 'DUPLICATE_DO' ? 'Same DO' : 'Shared date'}
+                    </span>
+                    <span className="font-mono">{c.date}</span>
+                    credited to {c.drivers.join(' and ')}
+                    {c.doNumbers.length > 0 && <span className="font-mono text-red-700">DO {c.doNumbers.join(', ')}</span>}
+                  </p>
+                ))}
+              </div>
+            )}
+
+            <div className="flex-1 overflow-auto">
+              <table className="w-full text-sm text-left">
+                <thead className="bg-slate-50 text-slate-500 font-medium sticky top-0 z-10 shadow-sm">
+                  <tr>
+                    <th className="px-6 py-3 text-xs uppercase tracking-wider">Date</th>
+                    <th className="px-6 py-3 text-xs uppercase tracking-wider">Driver</th>
+                    <th className="px-6 py-3 text-xs uppercase tracking-wider text-right">Trips</th>
+                    <th className="px-6 py-3 text-xs uppercase tracking-wider">DO Numbers</th>
+                    <th className="px-6 py-3 text-xs uppercase tracking-wider text-right">Weight</th>
+                    <th className="px-6 py-3 text-xs uppercase tracking-wider text-right">Commission</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100">
+                  {truck.days.map(day => {
+                    const counted = day.trips.filter(t => !isHeldBack(t));
+                    const flagged = conflictDates.has(toISODate(day.date) || day.date);
+                    return (
+                      <tr key={`${day.date}|${day.driverName}`} className={flagged ? 'bg-amber-50/50' : 'hover:bg-slate-50'}>
+                        <td className="px-6 py-3 font-mono text-slate-600 whitespace-nowrap">{day.date}</td>
+                        <td className="px-6 py-3 text-slate-800">
+                          <button onClick={() => onSelectDriver(day.driverName)} className="hover:text-blue-700 hover:underline">{day.driverName}</button>
+                        </td>
+                        <td className="px-6 py-3 text-right font-mono">{counted.length}</td>
+                        <td className="px-6 py-3 font-mono text-xs text-slate-500">{day.trips.map(t => t.doNumber).join(', ')}</td>
+                        <td className="px-6 py-3 text-right font-mono">{counted.reduce((sum, t) => sum + t.effWt, 0).toFixed(2)}</td>
+                        <td className="px-6 py-3 text-right font-mono font-medium">{counted.reduce((sum, t) => sum + t.newComm, 0).toFixed(2)}</td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          </>
+        ) : (
+          <div className="p-12 text-center text-slate-400 text-sm">No trips loaded.</div>
+        )}
+      </div>
+    </>
+  );
+};
+
+export default TruckView;
@@ -0,0 +1,120 @@
+import Papa from 'papaparse';
+import { DriverRecord, downloadFile, driverNameKey } from './utils';
+
+const STORAGE_KEY = 'incentiveCalc.driverMaster';
+
+// --- Persistence ---
+
+export const loadDriverMaster = (): DriverRecord[] => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? sanitizeDriverMaster(JSON.parse(stored)) : [];
+  } catch (err) {
+    console.error(err);
+    return [];
+  }
+};
+
+export const saveDriverMaster = (master: DriverRecord[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(master));
+};
+
+const text = (value: unknown): string =>
+  typeof value === 'string' || typeof value === 'number' ? String(value).trim() : '';
+
+// Needs an ID and a name; one record per ID, later rows win. Aliases that repeat the name are dropped.
+const sanitizeDriverMaster = (raw: unknown): DriverRecord[] => {
+  if (!Array.isArray(raw)) return [];
+  const byId = new Map<string, DriverRecord>();
+
+  raw.forEach(item => {
+    if (!item || typeof item !== 'object') return;
+    const r = item as Record<string, unknown>;
+    const employeeId = text(r.employeeId);
+    const name = text(r.name).replace(/\s+/g, ' ');
+    if (!employeeId || !name) return;
+
+    const seen = new Set([driverNameKey(name)]);
+    const aliases = (Array.isArray(r.aliases) ? r.aliases.map(text) : []).filter(alias => {
+      const key = driverNameKey(alias);
+      if (!key || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+    byId.set(employeeId, { employeeId, name, aliases, defaultTruck: text(r.defaultTruck) || undefined });
+  });
+  return Array.from(byId.values());
+};
+
+// Adds a PDF spelling to an employee's aliases, e.g. when mapping an unknown driver
+export const addDriverAlias = (master: DriverRecord[], employeeId: string, alias: string): DriverRecord[] =>
+  sanitizeDriverMaster(master.map(r => (r.employeeId === employeeId ? { ...r, aliases: [...r.aliases, alias] } : r)));
+
+// --- Import / Export ---
+
+const COLUMN_HINTS: Record<keyof DriverRecord, RegExp> = {
+  employeeId: /^(?!.*(name|truck|vehicle|lorry|plate)).*(\bid\b|\bno\b|number|code|emp|staff)/i,
+  aliases: /alias|aka|other|variant/i,
+  name: /name/i,
+  defaultTruck: /truck|vehicle|lorry|plate/i
+};
+
+// The first header matching each hint, in the order above so "Alias Names" isn't taken as the name column
+const findColumns = (headers: string[]): Partial<Record<keyof DriverRecord, string>> => {
+  const columns: Partial<Record<keyof DriverRecord, string>> = {};
+  const taken = new Set<string>();
+  (Object.keys(COLUMN_HINTS) as (keyof DriverRecord)[]).forEach(field => {
+    const header = headers.find(h => !taken.has(h) && COLUMN_HINTS[field].test(h));
+    if (header) {
+      columns[field] = header;
+      taken.add(header);
+    }
+  });
+  return columns;
+};
+
+/**
+ * Reads a driver master file: JSON as exported from here, or a CSV with ID, name,
+ * aliases (separated by ; or |) and default truck columns.
+ */
+export const parseDriverMasterFile = (file: File): Promise<DriverRecord[]> => {
+  if (file.name.toLowerCase().endsWith('.json')) {
+    return file.text().then(content => {
+      const master = sanitizeDriverMaster(JSON.parse(content));
+      if (master.length === 0) throw new Error('No drivers found in file');
+      return master;
+    });
+  }
+
+  return new Promise((resolve, reject) => {
+    Papa.parse(file, {
+      header: true,
+      skipEmptyLines: true,
+      complete: (results: any) => {
+        const columns = findColumns(results.meta.fields || []);
+        if (!columns.employeeId || !columns.name) {
+          reject(new Error('The driver file needs an employee ID column and a name column.'));
+          return;
+        }
+        const master = sanitizeDriverMaster(results.data.map((row: any) => ({
+          employeeId: row[columns.employeeId!],
+          name: row[columns.name!],
+          aliases: columns.aliases ? String(row[columns.aliases] || '').split(/[;|]/) : [],
+          defaultTruck: columns.defaultTruck ? row[columns.defaultTruck] : undefined
+        })));
+        if (master.length === 0) {
+          reject(new Error('No drivers found in file'));
+          return;
+        }
+        resolve(master);
+      },
+      error: (err: any) => reject(err),
+    });
+  });
+};
+
+export const exportDriverMasterCSV = (master: DriverRecord[]) => {
+  const data = master.map(r => [r.employeeId, r.name, r.aliases.join('; '), r.defaultTruck || '']);
+  const csv = Papa.unparse({ fields: ['Employee ID', 'Name', 'Aliases', 'Default Truck'], data });
+  downloadFile(csv, 'driver_master.csv', 'text/csv;charset=utf-8;');
+};
@@ -0,0 +1,344 @@
+import {
+  DriverReport, countPendingReviews, countUnresolvedDoIssues, downloadFile, isHeldBack, reportPeriod, toISODate
+} from './utils';
+
+const STORAGE_KEY = 'incentiveCalc.payrollTemplates';
+
+// --- Types ---
+
+export type PayrollField =
+  | 'EMPLOYEE_ID' | 'DRIVER_NAME' | 'PAY_CODE' | 'AMOUNT' | 'TRIPS' | 'WEIGHT'
+  | 'PERIOD_START' | 'PERIOD_END' | 'LINE_NUMBER' | 'TEXT';
+
+// Which part of a driver's totals a pay code pays out
+export type PayAmountSource = 'NEW_COMM' | 'BASE' | 'OT' | 'DIFF' | 'OLD_COMM';
+
+export interface PayCode {
+  code: string;
+  source: PayAmountSource;
+}
+
+export interface PayrollColumn {
+  id: string;
+  field: PayrollField;
+  header?: string;         // CSV header; defaults to the field label
+  text?: string;           // Fixed value for TEXT columns
+  width?: number;          // Fixed-width only
+  align?: 'LEFT' | 'RIGHT';
+  padChar?: string;        // Defaults to a space
+  decimals?: number;       // AMOUNT and WEIGHT; defaults to 2
+  impliedDecimal?: boolean; // Amounts without the point, e.g. 1234.50 → 123450
+  dateFormat?: string;     // PERIOD_* columns, built from YYYY, MM and DD
+}
+
+export interface PayrollTemplate {
+  id: string;
+  name: string;
+  format: 'CSV' | 'FIXED';
+  delimiter: string;       // CSV only
+  includeHeader: boolean;  // CSV only
+  lineEnding: 'CRLF' | 'LF';
+  grouping: 'DRIVER' | 'PAY_CODE'; // One line per driver (first pay code) or per driver and pay code
+  payCodes: PayCode[];
+  skipZero: boolean;       // Leave out lines whose amount is zero
+  columns: PayrollColumn[];
+}
+
+export interface PayrollPeriod {
+  start: string; // yyyy-mm-dd
+  end: string;
+}
+
+export interface PayrollExport {
+  content: string;
+  lineCount: number;
+  warnings: string[];
+  errors: string[]; // The file would carry wrong or misaligned values; it is not downloaded
+}
+
+export const PAYROLL_FIELDS: { field: PayrollField; label: string }[] = [
+  { field: 'EMPLOYEE_ID', label: 'Employee ID' },
+  { field: 'DRIVER_NAME', label: 'Driver Name' },
+  { field: 'PAY_CODE', label: 'Pay Code' },
+  { field: 'AMOUNT', label: 'Amount' },
+  { field: 'TRIPS', label: 'Trips' },
+  { field: 'WEIGHT', label: 'Weight' },
+  { field: 'PERIOD_START', label: 'Period Start' },
+  { field: 'PERIOD_END', label: 'Period End' },
+  { field: 'LINE_NUMBER', label: 'Line No.' },
+  { field: 'TEXT', label: 'Fixed Text' }
+];
+
+export const PAY_AMOUNT_SOURCES: { source: PayAmountSource; label: string }[] = [
+  { source: 'NEW_COMM', label: 'New commission' },
+  { source: 'BASE', label: 'New commission without OT' },
+  { source: 'OT', label: 'OT incentive' },
+  { source: 'DIFF', label: 'Difference (new − old)' },
+  { source: 'OLD_COMM', label: 'Old commission' }
+];
+
+export const DATE_FORMATS = ['YYYY-MM-DD', 'YYYYMMDD', 'DD/MM/YYYY', 'DDMMYYYY', 'MM/DD/YYYY'];
+
+const fieldLabel = (field: PayrollField): string => PAYROLL_FIELDS.find(f => f.field === field)?.label || field;
+
+export const newTemplateId = (): string => `payroll-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`;
+
+export const newColumn = (field: PayrollField): PayrollColumn => ({
+  id: `col-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`,
+  field
+});
+
+export const defaultTemplate = (): PayrollTemplate => ({
+  id: newTemplateId(),
+  name: 'Payroll CSV',
+  format: 'CSV',
+  delimiter: ',',
+  includeHeader: true,
+  lineEnding: 'CRLF',
+  grouping: 'DRIVER',
+  payCodes: [{ code: 'INC', source: 'NEW_COMM' }],
+  skipZero: false,
+  columns: (['EMPLOYEE_ID', 'DRIVER_NAME', 'PAY_CODE', 'AMOUNT', 'PERIOD_START', 'PERIOD_END'] as PayrollField[]).map(newColumn)
+});
+
+// --- Generation ---
+
+// First to last trip date across the run
+export const defaultPayrollPeriod = (reports: DriverReport[]): PayrollPeriod => {
+  const dates = reports
+    .flatMap(r => r.transactions.map(t => toISODate(t.date)))
+    .filter((d): d is string => !!d)
+    .sort();
+  return { start: dates[0] || '', end: dates[dates.length - 1] || '' };
+};
+
+const payAmount = (report: DriverReport, source: PayAmountSource): number => {
+  const overtime = report.transactions.reduce((sum, t) => sum + (isHeldBack(t) ? 0 : t.overtimeAmount ?? 0), 0);
+  switch (source) {
+    case 'NEW_COMM': return report.totalNewComm;
+    case 'BASE': return report.totalNewComm - overtime;
+    case 'OT': return overtime;
+    case 'DIFF': return report.totalNewComm - report.totalOriginalComm;
+    case 'OLD_COMM': return report.totalOriginalComm;
+  }
+};
+
+const formatDate = (iso: string, pattern = 'YYYY-MM-DD'): string => {
+  const [year, month, day] = iso.split('-');
+  if (!year || !month || !day) return '';
+  return pattern.replace('YYYY', year).replace('MM', month).replace('DD', day);
+};
+
+const formatNumber = (value: number, column: PayrollColumn): string => {
+  const decimals = column.decimals ?? 2;
+  return column.impliedDecimal
+    ? String(Math.round(value * 10 ** decimals))
+    : value.toFixed(decimals);
+};
+
+const quoteCsv = (value: string, delimiter: string): string =>
+  value.includes(delimiter) || /["\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+interface PayrollLine {
+  report: DriverReport;
+  payCode: PayCode;
+  amount: number;
+  number: number;
+}
+
+const cellValue = (column: PayrollColumn, line: PayrollLine, period: PayrollPeriod): string => {
+  const counted = line.report.transactions.filter(t => !isHeldBack(t));
+  switch (column.field) {
+    case 'EMPLOYEE_ID': return line.report.employeeId || '';
+    case 'DRIVER_NAME': return line.report.driverName;
+    case 'PAY_CODE': return line.payCode.code;
+    case 'AMOUNT': return formatNumber(line.amount, column);
+    case 'TRIPS': return String(counted.length);
+    case 'WEIGHT': return formatNumber(counted.reduce((sum, t) => sum + t.effWt, 0), column);
+    case 'PERIOD_START': return formatDate(period.start, column.dateFormat);
+    case 'PERIOD_END': return formatDate(period.end, column.dateFormat);
+    case 'LINE_NUMBER': return String(line.number);
+    case 'TEXT': return column.text || '';
+  }
+};
+
+const NUMBER_FIELDS: PayrollField[] = ['AMOUNT', 'WEIGHT', 'TRIPS', 'LINE_NUMBER'];
+
+// Problems that make a template unusable, shown while it is edited and checked before any file is built
+export const templateProblems = (template: PayrollTemplate): string[] =>
+  template.format === 'FIXED'
+    ? template.columns
+        .filter(c => !c.width)
+        .map(c => `${fieldLabel(c.field)} column has no width; fixed-width records would vary in length`)
+    : [];
+
+/**
+ * Pads or cuts a value to the column width. Text is cut; a number that doesn't fit
+ * is left whole and reported as an error, since a cut amount is a wrong amount.
+ * Zeros go after a minus sign: -12.50 in 8 becomes -0012.50.
+ */
+const fitWidth = (value: string, column: PayrollColumn, fail: (message: string) => void): string => {
+  const width = column.width ?? value.length;
+  if (value.length > width) {
+    if (NUMBER_FIELDS.includes(column.field)) {
+      fail(`${fieldLabel(column.field)} ${value} does not fit in ${width} characters`);
+      return value;
+    }
+    return column.align === 'RIGHT' ? value.slice(value.length - width) : value.slice(0, width);
+  }
+  const pad = (column.padChar || ' ').charAt(0);
+  if (column.align !== 'RIGHT') return value.padEnd(width, pad);
+  return pad === '0' && value.startsWith('-') ? `-${value.slice(1).padStart(width - 1, pad)}` : value.padStart(width, pad);
+};
+
+/**
+ * One line per driver, or per driver and pay code, from the DriverReport totals.
+ * Trips held back over DO issues are already out of those totals.
+ */
+export const buildPayrollExport = (reports: DriverReport[], template: PayrollTemplate, period: PayrollPeriod): PayrollExport => {
+  const warnings: string[] = [];
+  const errors = templateProblems(template);
+  const payCodes = template.grouping === 'DRIVER' ? template.payCodes.slice(0, 1) : template.payCodes;
+  if (payCodes.length === 0) warnings.push('The template has no pay code');
+
+  const lines: PayrollLine[] = [];
+  reports.forEach(report => {
+    if (!report.employeeId && template.columns.some(c => c.field === 'EMPLOYEE_ID')) {
+      warnings.push(`${report.driverName}: no employee ID`);
+    }
+    payCodes.forEach(payCode => {
+      const amount = payAmount(report, payCode.source);
+      if (template.skipZero && Math.abs(amount) < 0.005) return;
+      lines.push({ report, payCode, amount, number: lines.length + 1 });
+    });
+  });
+
+  const rows = lines.map(line => template.columns.map(column => {
+    const value = cellValue(column, line, period);
+    return template.format === 'FIXED'
+      ? fitWidth(value, column, message => errors.push(`${line.report.driverName}: ${message}`))
+      : quoteCsv(value, template.delimiter);
+  }));
+
+  const text = template.format === 'FIXED'
+    ? rows.map(cells => cells.join(''))
+    : [
+        ...(template.includeHeader ? [template.columns.map(c => quoteCsv(c.header || fieldLabel(c.field), template.delimiter))] : []),
+        ...rows
+      ].map(cells => cells.join(template.delimiter));
+
+  const eol = template.lineEnding === 'CRLF' ? '\r\n' : '\n';
+  return { content: text.length > 0 ? text.join(eol) + eol : '', lineCount: lines.length, warnings, errors };
+};
+
+// Totals aren't final while fuzzy matches await review or DO issues are unresolved
+export const isPayrollDraft = (reports: DriverReport[]): boolean =>
+  countPendingReviews(reports) > 0 || countUnresolvedDoIssues(reports) > 0;
+
+export const downloadPayrollExport = (reports: DriverReport[], template: PayrollTemplate, period: PayrollPeriod) => {
+  const { content, errors } = buildPayrollExport(reports, template, period);
+  if (errors.length > 0) throw new Error(errors[0]);
+  const name = template.name.trim().replace(/[^\w.-]+/g, '_') || 'payroll';
+  const extension = template.format === 'CSV' ? 'csv' : 'txt';
+  const draft = isPayrollDraft(reports) ? '_DRAFT' : '';
+  downloadFile(content, `${name}_${reportPeriod(reports)}${draft}.${extension}`, template.format === 'CSV' ? 'text/csv;charset=utf-8;' : 'text/plain;charset=utf-8;');
+};
+
+// --- Persistence ---
+
+export const loadPayrollTemplates = (): PayrollTemplate[] => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    const templates = stored ? sanitizeTemplates(JSON.parse(stored)) : [];
+    return templates.length > 0 ? templates : [defaultTemplate()];
+  } catch (err) {
+    console.error(err);
+    return [defaultTemplate()];
+  }
+};
+
+export const savePayrollTemplates = (templates: PayrollTemplate[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(templates));
+};
+
+const text = (value: unknown): string | undefined =>
+  typeof value === 'string' && value !== '' ? value : undefined;
+
+const count = (value: unknown): number | undefined =>
+  typeof value === 'number' && Number.isInteger(value) && value >= 0 ? value : undefined;
+
+const oneOf = <T extends string>(value: unknown, options: readonly T[], fallback: T): T =>
+  options.includes(value as T) ? value as T : fallback;
+
+const sanitizeColumns = (list: unknown): PayrollColumn[] => {
+  if (!Array.isArray(list)) return [];
+  const fields = PAYROLL_FIELDS.map(f => f.field);
+
+  return list.flatMap((item): PayrollColumn[] => {
+    if (!item || typeof item !== 'object') return [];
+    const c = item as Record<string, unknown>;
+    const field = c.field as PayrollField;
+    if (!fields.includes(field)) return [];
+    return [{
+      id: text(c.id) || newColumn(field).id,
+      field,
+      header: text(c.header),
+      text: text(c.text),
+      width: count(c.width),
+      align: c.align === 'RIGHT' ? 'RIGHT' : c.align === 'LEFT' ? 'LEFT' : undefined,
+      padChar: text(c.padChar)?.charAt(0),
+      decimals: count(c.decimals),
+      impliedDecimal: c.impliedDecimal === true || undefined,
+      dateFormat: text(c.dateFormat)
+    }];
+  });
+};
+
+const sanitizePayCodes = (list: unknown): PayCode[] => {
+  if (!Array.isArray(list)) return [];
+  const sources = PAY_AMOUNT_SOURCES.map(s => s.source);
+
+  return list.flatMap((item): PayCode[] => {
+    if (!item || typeof item !== 'object') return [];
+    const p = item as Record<string, unknown>;
+    const code = typeof p.code === 'string' ? p.code.trim() : '';
+    return code ? [{ code, source: oneOf(p.source, sources, 'NEW_COMM') }] : [];
+  });
+};
+
+// Keeps only templates with at least one column
+const sanitizeTemplates = (raw: unknown): PayrollTemplate[] => {
+  const list = Array.isArray(raw) ? raw : raw && typeof raw === 'object' ? [raw] : [];
+
+  return list.flatMap((item): PayrollTemplate[] => {
+    if (!item || typeof item !== 'object') return [];
+    const t = item as Record<string, unknown>;
+    const columns = sanitizeColumns(t.columns);
+    if (columns.length === 0) return [];
+    return [{
+      id: text(t.id) || newTemplateId(),
+      name: typeof t.name === 'string' && t.name.trim() ? t.name.trim() : 'Untitled',
+      format: oneOf(t.format, ['CSV', 'FIXED'] as const, 'CSV'),
+      delimiter: text(t.delimiter) || ',',
+      includeHeader: t.includeHeader !== false,
+      lineEnding: oneOf(t.lineEnding, ['CRLF', 'LF'] as const, 'CRLF'),
+      grouping: oneOf(t.grouping, ['DRIVER', 'PAY_CODE'] as const, 'DRIVER'),
+      payCodes: sanitizePayCodes(t.payCodes),
+      skipZero: t.skipZero === true,
+      columns
+    }];
+  });
+};
+
+// --- Import / Export ---
+
+export const parseTemplatesFile = (file: File): Promise<PayrollTemplate[]> =>
+  file.text().then(content => {
+    const templates = sanitizeTemplates(JSON.parse(content));
+    if (templates.length === 0) throw new Error('No templates found in file');
+    return templates;
+  });
+
+export const exportTemplatesJSON = (templates: PayrollTemplate[]) => {
+  downloadFile(JSON.stringify(templates, null, 2), 'payroll_templates.json', 'application/json');
+};
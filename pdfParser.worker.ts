@@ -0,0 +1,48 @@
+import { CommissionConfig, DriverParser, DriverReport, LocationAliasMap, ParseDiagnostic, RateData, TextItem, createDriverParser } from './utils';
+
+// Main thread -> worker. Pages are sent one at a time as pdf.js extracts their text.
+export type WorkerRequest =
+  | { type: 'START'; fileName: string; rateData: RateData; aliases: LocationAliasMap; config: CommissionConfig }
+  | { type: 'PAGE'; page: number; items: TextItem[] }
+  | { type: 'FINISH' };
+
+// Worker -> main thread
+export type WorkerResponse =
+  | { type: 'PAGE_DONE'; page: number; driver: string | null }
+  | { type: 'DRIVER'; report: DriverReport }
+  | { type: 'DONE'; diagnostics: ParseDiagnostic[] }
+  | { type: 'ERROR'; message: string };
+
+const ctx = self as unknown as Worker;
+let parser: DriverParser | null = null;
+let sent = 0;
+
+const post = (message: WorkerResponse) => ctx.postMessage(message);
+
+ctx.onmessage = (e: MessageEvent<WorkerRequest>) => {
+  const message = e.data;
+  try {
+    if (message.type === 'START') {
+      parser = createDriverParser(message.fileName, message.rateData, message.aliases, message.config);
+      sent = 0;
+      return;
+    }
+    if (!parser) throw new Error('Parser was not started');
+
+    if (message.type === 'PAGE') {
+      parser.addPage(message.page, message.items).forEach(report => {
+        post({ type: 'DRIVER', report });
+        sent += 1;
+      });
+      post({ type: 'PAGE_DONE', page: message.page, driver: parser.currentDriver() });
+      return;
+    }
+
+    const result = parser.finish();
+    result.reports.slice(sent).forEach(report => post({ type: 'DRIVER', report }));
+    post({ type: 'DONE', diagnostics: result.diagnostics });
+    parser = null;
+  } catch (err) {
+    post({ type: 'ERROR', message: err instanceof Error ? err.message : String(err) });
+  }
+};
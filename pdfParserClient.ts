@@ -0,0 +1,94 @@
+import { CommissionConfig, DriverReport, LocationAliasMap, PdfParseResult, RateData, toTextItems } from './utils';
+import type { WorkerRequest, WorkerResponse } from './pdfParser.worker';
+
+export interface ParseProgress {
+  fileName: string;
+  page: number;        // Pages finished so far
+  totalPages: number;
+  driver: string | null; // Driver whose trips are being read
+  driversDone: number;
+}
+
+export interface WorkerParseResult extends PdfParseResult {
+  cancelled: boolean;  // Stopped early; reports holds only the drivers finished before that
+  pagesRead: number;
+  totalPages: number;
+}
+
+interface ParseHandlers {
+  onProgress?: (progress: ParseProgress) => void;
+  onDriver?: (report: DriverReport) => void;
+  signal?: AbortSignal;
+}
+
+/**
+ * Text is extracted page by page with pdf.js here, then grouped, parsed and priced in
+ * pdfParser.worker.ts. Each page waits for the worker, so a cancel never leaves a page half-read.
+ */
+export const parsePdfInWorker = async (
+  file: File,
+  rateData: RateData,
+  aliases: LocationAliasMap,
+  config: CommissionConfig,
+  { onProgress, onDriver, signal }: ParseHandlers = {}
+): Promise<WorkerParseResult> => {
+  const arrayBuffer = await file.arrayBuffer();
+  // @ts-ignore
+  const pdf = await pdfjsLib.getDocument(arrayBuffer).promise;
+  const totalPages: number = pdf.numPages;
+
+  const worker = new Worker(new URL('./pdfParser.worker.ts', import.meta.url), { type: 'module' });
+  const reports: DriverReport[] = [];
+  let waiting: { resolve: (response: WorkerResponse | null) => void; reject: (err: Error) => void } | null = null;
+
+  worker.onmessage = (e: MessageEvent<WorkerResponse>) => {
+    const message = e.data;
+    if (message.type === 'DRIVER') {
+      reports.push(message.report);
+      onDriver?.(message.report);
+    } else if (message.type === 'ERROR') {
+      waiting?.reject(new Error(message.message));
+    } else {
+      waiting?.resolve(message);
+    }
+  };
+  worker.onerror = (e) => waiting?.reject(new Error(e.message || 'PDF worker failed'));
+
+  // Resolves with null if the parse is cancelled while waiting
+  const request = (message: WorkerRequest) => new Promise<WorkerResponse | null>((resolve, reject) => {
+    waiting = { resolve, reject };
+    worker.postMessage(message);
+  });
+  const onAbort = () => waiting?.resolve(null);
+  signal?.addEventListener('abort', onAbort);
+
+  let pagesRead = 0;
+  try {
+    worker.postMessage({ type: 'START', fileName: file.name, rateData, aliases, config } as WorkerRequest);
+
+    for (let i = 1; i <= totalPages; i++) {
+      if (signal?.aborted) break;
+      const page = await pdf.getPage(i);
+      const textContent = await page.getTextContent();
+      const response = await request({ type: 'PAGE', page: i, items: toTextItems(textContent.items) });
+      if (!response || response.type !== 'PAGE_DONE') break;
+
+      pagesRead = i;
+      onProgress?.({ fileName: file.name, page: i, totalPages, driver: response.driver, driversDone: reports.length });
+    }
+
+    if (signal?.aborted) {
+      return { reports, diagnostics: [], cancelled: true, pagesRead, totalPages };
+    }
+
+    const done = await request({ type: 'FINISH' });
+    if (!done || done.type !== 'DONE') {
+      return { reports, diagnostics: [], cancelled: true, pagesRead, totalPages };
+    }
+    return { reports, diagnostics: done.diagnostics, cancelled: false, pagesRead, totalPages };
+  } finally {
+    signal?.removeEventListener('abort', onAbort);
+    worker.terminate();
+    pdf.destroy();
+  }
+};
@@ -0,0 +1,37 @@
+import { ColumnMapping, layoutSignature, suggestColumnMapping } from './utils';
+
+const STORAGE_KEY = 'incentiveCalc.rateSheetLayouts';
+
+// Layout signature -> column mapping confirmed for it
+type SavedLayouts = Record<string, ColumnMapping>;
+
+const loadLayouts = (): SavedLayouts => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : {};
+  } catch (err) {
+    console.error(err);
+    return {};
+  }
+};
+
+// The mapping saved for this header layout, if every column it names is still present
+export const loadSavedMapping = (headers: string[]): ColumnMapping | null => {
+  const mapping = loadLayouts()[layoutSignature(headers)];
+  if (!mapping) return null;
+  return Object.values(mapping).every(column => !column || headers.includes(column)) ? mapping : null;
+};
+
+export const saveMapping = (headers: string[], mapping: ColumnMapping) => {
+  const layouts = loadLayouts();
+  layouts[layoutSignature(headers)] = mapping;
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(layouts));
+};
+
+// For sheets loaded outside the wizard: the saved mapping, else the suggestion if it covers the required columns
+export const mappingWithoutWizard = (headers: string[]): ColumnMapping | null => {
+  const saved = loadSavedMapping(headers);
+  if (saved) return saved;
+  const suggested = suggestColumnMapping(headers);
+  return suggested.pickup && suggested.drop && suggested.rate ? suggested as ColumnMapping : null;
+};
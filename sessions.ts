@@ -0,0 +1,165 @@
+import {
+  ColumnMapping, CommissionConfig, ConflictPolicy, DriverRecord, DriverReport, LocationAliasMap, ParseDiagnostic,
+  RateSheetTable, RateSheetValidity, downloadFile
+} from './utils';
+
+const DB_NAME = 'incentiveCalc';
+const STORE = 'sessions';
+const FILE_FORMAT = 'incentiveCalc.session';
+const FILE_VERSION = 1;
+
+// Everything needed to put a run back on screen; rate data is rebuilt from the stored sheet
+export interface SessionData {
+  rateTable: RateSheetTable;
+  columnMapping: ColumnMapping;
+  rateValidity: RateSheetValidity;
+  conflictPolicy: ConflictPolicy;
+  reports: DriverReport[];
+  documentDiagnostics: ParseDiagnostic[];
+  sourceFiles: string[];
+  sourceFileKeys?: string[]; // Name, size and modified time of each PDF; older sessions only have sourceFiles
+  settings?: SessionSettings; // Absent in sessions saved before settings were kept
+}
+
+// The browser-wide settings the figures were priced with, so another machine re-prices the same way
+export interface SessionSettings {
+  aliases: LocationAliasMap;
+  commissionConfig: CommissionConfig;
+  driverMaster: DriverRecord[];
+}
+
+export interface SessionInfo {
+  id: string;
+  name: string;
+  processedAt: string; // ISO time the first PDF was processed
+}
+
+export interface SavedSession extends SessionInfo, SessionData {
+  updatedAt: string;
+}
+
+// What the history list shows, without the trip data
+export interface SessionSummary extends SessionInfo {
+  updatedAt: string;
+  rateSheet: string;
+  sourceFiles: string[];
+  driverCount: number;
+  tripCount: number;
+}
+
+export const newSessionInfo = (sourceFiles: string[]): SessionInfo => {
+  const first = (sourceFiles[0] || 'Session').replace(/\.pdf$/i, '');
+  return {
+    id: `session-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`,
+    name: sourceFiles.length > 1 ? `${first} +${sourceFiles.length - 1}` : first,
+    processedAt: new Date().toISOString()
+  };
+};
+
+// --- IndexedDB ---
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, 1);
+      request.onupgradeneeded = () => request.result.createObjectStore(STORE, { keyPath: 'id' });
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }).catch(err => {
+      dbPromise = null; // Let the next call try again
+      throw err;
+    });
+  }
+  return dbPromise;
+};
+
+const withStore = <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> =>
+  openDb().then(db => new Promise<T>((resolve, reject) => {
+    const request = action(db.transaction(STORE, mode).objectStore(STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  }));
+
+const summarize = (session: SavedSession): SessionSummary => ({
+  id: session.id,
+  name: session.name,
+  processedAt: session.processedAt,
+  updatedAt: session.updatedAt,
+  rateSheet: session.rateTable.fileName,
+  sourceFiles: session.sourceFiles,
+  driverCount: session.reports.length,
+  tripCount: session.reports.reduce((sum, r) => sum + r.transactions.length, 0)
+});
+
+// Most recently worked on first
+export const listSessions = (): Promise<SessionSummary[]> =>
+  withStore<SavedSession[]>('readonly', store => store.getAll())
+    .then(sessions => sessions.map(summarize).sort((a, b) => b.updatedAt.localeCompare(a.updatedAt)));
+
+export const loadSession = (id: string): Promise<SavedSession | undefined> =>
+  withStore<SavedSession | undefined>('readonly', store => store.get(id));
+
+export const saveSession = (info: SessionInfo, data: SessionData): Promise<void> => {
+  const session: SavedSession = { ...info, ...data, updatedAt: new Date().toISOString() };
+  return withStore('readwrite', store => store.put(session)).then(() => undefined);
+};
+
+export const deleteSession = (id: string): Promise<void> =>
+  withStore('readwrite', store => store.delete(id)).then(() => undefined);
+
+// --- Import / Export ---
+
+const isObject = (value: unknown): value is Record<string, unknown> => !!value && typeof value === 'object';
+
+// Checks the shape of an imported session; the trip data itself is trusted as exported
+const sanitizeSession = (raw: unknown): SavedSession => {
+  const file = isObject(raw) ? raw : {};
+  if (file.format !== FILE_FORMAT || !isObject(file.session)) throw new Error('Not a session file');
+
+  const s = file.session;
+  const table = s.rateTable;
+  const mapping = s.columnMapping;
+  if (typeof s.id !== 'string' || typeof s.name !== 'string'
+    || !isObject(table) || !Array.isArray(table.headers) || !Array.isArray(table.rows)
+    || !isObject(mapping) || typeof mapping.pickup !== 'string' || typeof mapping.drop !== 'string' || typeof mapping.rate !== 'string'
+    || !Array.isArray(s.reports) || !s.reports.every(r => isObject(r) && Array.isArray(r.transactions))) {
+    throw new Error('The session file is incomplete');
+  }
+
+  const now = new Date().toISOString();
+  return {
+    id: s.id,
+    name: s.name,
+    processedAt: typeof s.processedAt === 'string' ? s.processedAt : now,
+    updatedAt: now,
+    rateTable: table as unknown as RateSheetTable,
+    columnMapping: mapping as unknown as ColumnMapping,
+    rateValidity: isObject(s.rateValidity) ? s.rateValidity as RateSheetValidity : {},
+    conflictPolicy: typeof s.conflictPolicy === 'string' ? s.conflictPolicy as ConflictPolicy : 'LAST',
+    reports: s.reports as DriverReport[],
+    documentDiagnostics: Array.isArray(s.documentDiagnostics) ? s.documentDiagnostics as ParseDiagnostic[] : [],
+    sourceFiles: Array.isArray(s.sourceFiles) ? s.sourceFiles.filter((f): f is string => typeof f === 'string') : [],
+    sourceFileKeys: Array.isArray(s.sourceFileKeys) ? s.sourceFileKeys.filter((f): f is string => typeof f === 'string') : undefined,
+    settings: isObject(s.settings) && isObject(s.settings.aliases) && isObject(s.settings.commissionConfig) && Array.isArray(s.settings.driverMaster)
+      ? s.settings as unknown as SessionSettings
+      : undefined
+  };
+};
+
+// Imported sessions keep their id, so importing a newer copy of the same run replaces the old one
+export const importSessionFile = async (file: File): Promise<SavedSession> => {
+  const session = sanitizeSession(JSON.parse(await file.text()));
+  await withStore('readwrite', store => store.put(session));
+  return session;
+};
+
+export const exportSessionFile = (session: SavedSession) => {
+  const fileName = session.name.replace(/[^\w.-]+/g, '_') || 'session';
+  downloadFile(
+    JSON.stringify({ format: FILE_FORMAT, version: FILE_VERSION, session }),
+    `${fileName}.session.json`,
+    'application/json'
+  );
+};
@@ -1,6 +1,8 @@
 import Papa from 'papaparse';
 import jsPDF from 'jspdf';
 import autoTable from 'jspdf-autotable';
+import { zipSync } from 'fflate';
+import { Cell, CellStyle, WorksheetData, buildWorkbook, sheetNames, sheetRef } from './xlsx';
 
 // --- Types ---
 
@@ -8,16 +10,44 @@ export interface RateMap {
   [key: string]: number;
 }
 
+// One priced window for a route; open-ended when from/to are missing (ISO yyyy-mm-dd)
+export interface RateVersion {
+  rate: number;
+  from?: string;
+  to?: string;
+}
+
 export interface RateData {
-  rateMap: RateMap;
+  rateMap: RateMap;           // Current rate per route (latest effective version)
+  rateVersions: { [key: string]: RateVersion[] };
   validPickups: string[];
   validDrops: string[];
 }
 
-export type MatchType = 'EXACT' | 'FUZZY' | 'NONE';
+// Sheet-wide validity applied to rows without their own effective dates
+export interface RateSheetValidity {
+  from?: string;
+  to?: string;
+}
+
+// PDF spelling -> canonical rate-sheet location (both stored normalised)
+export interface LocationAliasMap {
+  [spelling: string]: string;
+}
+
+export type MatchType = 'EXACT' | 'ALIAS' | 'FUZZY' | 'MANUAL' | 'NONE';
+
+// Reviewer decision on a fuzzy route mapping
+export type ReviewStatus = 'PENDING' | 'ACCEPTED' | 'REJECTED';
+
+// How a user resolved a "Rate Missing" route: a typed-in rate, or an existing rate-sheet route
+export type RouteResolution =
+  | { type: 'RATE'; rate: number }
+  | { type: 'ROUTE'; pickup: string; drop: string };
 
 export interface Transaction {
   truck: string;
+  customer?: string;  // From a Customer/Party column, when the PDF has one
   date: string;
   pickup: string;
   drop: string;
@@ -28,10 +58,133 @@ export interface Transaction {
   originalComm: number;
   newComm: number;
   diff: number;
-  ot: string;
+  ot: string;                  // OT cell as printed
+  overtime?: Overtime;         // Parsed OT cell; unset when the trip has no OT
+  overtimeAmount?: number;     // Part of newComm added by the OT rule for overtime.code
   matchType: MatchType;
-  matchedPickup?: string; // The CSV location we matched to (if fuzzy)
-  matchedDrop?: string;   // The CSV location we matched to (if fuzzy)
+  matchedPickup?: string; // The CSV location we matched to (if alias, fuzzy or manual)
+  matchedDrop?: string;   // The CSV location we matched to (if alias, fuzzy or manual)
+  pickupScore?: number;   // Similarity of pickup to matchedPickup (fuzzy only)
+  dropScore?: number;     // Similarity of drop to matchedDrop (fuzzy only)
+  routeScore?: number;    // Combined confidence of the matched route pair (fuzzy only)
+  reviewStatus?: ReviewStatus; // Set on trips that were fuzzy-matched
+  rateVersion?: string;        // Validity window of the dated rate that priced this trip
+  outsideRateWindow?: boolean; // Route matched, but no rate version covers the trip date
+  sourceFile?: string;         // PDF the trip was read from
+  sourceKey?: string;          // pdfFileKey of that PDF; tells same-named files apart
+  sourcePage?: number;         // Page within sourceFile
+  doIssue?: DoIssue;           // Set while the DO number is repeated or malformed
+  doResolution?: DoResolution; // How a flagged trip was resolved; unresolved trips stay out of totals
+  commissionRule?: string;     // Name of the rule that produced newComm; unset when the PDF commission was kept
+}
+
+export type RoundingMode = 'NONE' | 'NEAREST' | 'UP' | 'DOWN';
+
+/**
+ * How newComm is worked out for the trips a rule selects. Blank criteria match
+ * anything, so a rule with none set is a catch-all. Rules are tried in order.
+ */
+export interface CommissionRule {
+  id: string;
+  name: string;
+  pickup?: string;      // Rate-sheet pickup (or PDF pickup for unmatched trips)
+  drop?: string;
+  truck?: string;
+  customer?: string;
+  divisor?: number;     // newComm = weight × rate / divisor; defaults to 10
+  minWeight?: number;   // Lighter trips are paid as if they weighed this
+  flatAmount?: number;  // Pay this per trip instead of weight × rate; also prices unmatched trips
+  bonus?: number;       // Added per trip
+  rounding?: RoundingMode;
+  roundTo?: number;     // Rounding step, e.g. 1 or 0.5
+  cap?: number;         // Most a single trip can earn
+}
+
+// An OT cell such as "OT", "Y", "NIGHT 2" or "1.5" (hours)
+export interface Overtime {
+  code: string;
+  hours?: number;
+}
+
+// Extra pay for trips carrying an OT code, applied after the commission rule
+export interface OvertimeRule {
+  code: string;
+  multiplier?: number;  // newComm × multiplier
+  addOn?: number;       // Flat amount per trip, added after the multiplier
+  perHour?: boolean;    // Multiply the add-on by the OT hours, where the cell gives them
+}
+
+export interface CommissionConfig {
+  rules: CommissionRule[];
+  overtime: OvertimeRule[];
+}
+
+export const EMPTY_COMMISSION_CONFIG: CommissionConfig = { rules: [], overtime: [] };
+
+// Why a trip's DO number was flagged
+export type DoIssue = 'REPEATED_SAME_DRIVER' | 'REPEATED_OTHER_DRIVER' | 'MALFORMED';
+
+export type DoResolution = 'KEEP' | 'EXCLUDE';
+
+// One flagged DO number and every trip carrying it
+export interface DoIssueGroup {
+  doNumber: string;
+  issue: DoIssue;
+  trips: { driverIndex: number; tripIndex: number; driverName: string; transaction: Transaction }[];
+}
+
+// A rate-sheet route offered as a match for a PDF pickup/drop pair
+export interface RouteCandidate {
+  pickup: string;
+  drop: string;
+  pickupScore: number;
+  dropScore: number;
+  score: number;       // Combined confidence: average of both sides
+  rate: number;
+}
+
+// One distinct PDF route -> rate-sheet route guess, with the trips it affects
+export interface FuzzyMapping {
+  pickup: string;
+  drop: string;
+  matchedPickup: string;
+  matchedDrop: string;
+  pickupScore: number;
+  dropScore: number;
+  routeScore: number;
+  tripCount: number;
+  driverCount: number;
+  status: ReviewStatus;
+}
+
+export type ReviewDecision =
+  | { type: 'ACCEPT' }
+  | { type: 'REJECT' }
+  | { type: 'CANDIDATE'; candidate: RouteCandidate };
+
+// Why a PDF line did not become (a clean) transaction
+export type DiagnosticKind = 'IGNORED' | 'UNPARSED_TRIP' | 'BAD_NUMBER' | 'DUPLICATE_TRIP';
+
+export interface ParseDiagnostic {
+  sourceFile?: string;
+  page: number;
+  kind: DiagnosticKind;
+  message: string;
+  line: string;
+}
+
+// Totals printed in the PDF for a driver, where the parser found them
+export interface PdfTotals {
+  trips?: number;
+  weight?: number;
+  commission?: number;
+}
+
+export type ReconciliationStatus = 'MATCHED' | 'MISMATCH' | 'NO_TOTALS';
+
+export interface Reconciliation {
+  status: ReconciliationStatus;
+  issues: string[]; // One line per total that disagrees with the parsed trips
 }
 
 export interface DriverReport {
@@ -42,6 +195,25 @@ export interface DriverReport {
   mismatchedTrips: number;
   fuzzyTrips: number;
   rawTextLines: string[];
+  diagnostics: ParseDiagnostic[];
+  pdfTotals: PdfTotals;
+  reconciliation: Reconciliation;
+  sourceFiles: string[];
+  employeeId?: string;  // From the driver master file
+  pdfNames?: string[];  // Names as printed in the PDFs, once resolved against the driver master file
+}
+
+// One employee in the driver master file
+export interface DriverRecord {
+  employeeId: string;
+  name: string;          // Canonical name used in the UI and exports
+  aliases: string[];     // Other spellings the PDFs use
+  defaultTruck?: string;
+}
+
+export interface PdfParseResult {
+  reports: DriverReport[];
+  diagnostics: ParseDiagnostic[]; // Lines that came before the first driver
 }
 
 // --- Similarity Helpers ---
@@ -68,10 +240,12 @@ const levenshteinDistance = (a: string, b: string): number => {
   return matrix[b.length][a.length];
 };
 
+const cleanForMatch = (value: string): string => value.toUpperCase().replace(/[^A-Z0-9\s]/g, '');
+
 // Calculate similarity score (0 to 1)
 const getSimilarityScore = (str1: string, str2: string): number => {
-  const s1 = str1.toUpperCase().replace(/[^A-Z0-9\s]/g, '');
-  const s2 = str2.toUpperCase().replace(/[^A-Z0-9\s]/g, '');
+  const s1 = cleanForMatch(str1);
+  const s2 = cleanForMatch(str2);
 
   if (s1 === s2) return 1.0;
   if (s1.includes(s2) || s2.includes(s1)) return 0.9; // Strong substring match
@@ -100,7 +274,142 @@ const getSimilarityScore = (str1: string, str2: string): number => {
   return 1 - (distance / maxLength);
 };
 
-const findBestMatch = (target: string, candidates: string[]): { match: string, score: number } | null => {
+const FUZZY_THRESHOLD = 0.55;
+
+interface ScoredCandidate {
+  index: number;
+  match: string;
+  score: number;
+}
+
+// Gram postings and per-target results for one list of rate-sheet locations
+interface LocationIndex {
+  locations: Set<string>; // Exact (normalised) rate-sheet spellings
+  cleaned: string[];
+  trigrams: Map<string, number[]>;
+  bigrams: Map<string, { index: number; count: number }[]>;
+  short: number[]; // Candidates under 3 chars; always scored
+  cache: Map<string, ScoredCandidate[]>; // Cleaned target -> candidates above the threshold
+}
+
+// Looser than the threshold so float rounding can never prune a passing candidate
+const MAX_EDIT_RATIO = 1 - FUZZY_THRESHOLD + 0.01;
+
+const gramCounts = (value: string, size: number): Map<string, number> => {
+  const counts = new Map<string, number>();
+  for (let i = 0; i + size <= value.length; i++) {
+    const gram = value.slice(i, i + size);
+    counts.set(gram, (counts.get(gram) || 0) + 1);
+  }
+  return counts;
+};
+
+/**
+ * Indexes candidates by trigram and bigram, so lookups can prune candidates that provably
+ * score at or below FUZZY_THRESHOLD and score only the rest.
+ * - Equal, substring and shared-token scores all need a shared trigram once both sides have 3+ chars.
+ * - The Levenshtein fallback needs a close length and, by the q-gram lemma, at least
+ *   maxLength - 1 - 2 * distance shared bigrams.
+ */
+const buildLocationIndex = (candidates: string[]): LocationIndex => {
+  const index: LocationIndex = { locations: new Set(candidates), cleaned: [], trigrams: new Map(), bigrams: new Map(), short: [], cache: new Map() };
+
+  candidates.forEach((candidate, i) => {
+    const cleaned = cleanForMatch(candidate);
+    index.cleaned.push(cleaned);
+    if (cleaned.length < 3) index.short.push(i);
+
+    gramCounts(cleaned, 3).forEach((_, gram) => {
+      if (!index.trigrams.has(gram)) index.trigrams.set(gram, []);
+      index.trigrams.get(gram)!.push(i);
+    });
+    gramCounts(cleaned, 2).forEach((count, gram) => {
+      if (!index.bigrams.has(gram)) index.bigrams.set(gram, []);
+      index.bigrams.get(gram)!.push({ index: i, count });
+    });
+  });
+  return index;
+};
+
+// Built once per candidate list (i.e. per RateData) and reused by every lookup against it
+const locationIndexes = new WeakMap<string[], LocationIndex>();
+
+const locationIndexFor = (candidates: string[]): LocationIndex => {
+  let index = locationIndexes.get(candidates);
+  if (!index) {
+    index = buildLocationIndex(candidates);
+    locationIndexes.set(candidates, index);
+  }
+  return index;
+};
+
+const scoreCandidates = (target: string, candidates: string[], index: LocationIndex): ScoredCandidate[] => {
+  const cleanTarget = cleanForMatch(target);
+  const cached = index.cache.get(cleanTarget);
+  if (cached) return cached;
+
+  let survivors: Iterable<number>;
+  if (cleanTarget.length < 3) {
+    // Too short to prune: substring matches need no shared grams
+    survivors = candidates.keys();
+  } else {
+    const keep = new Set<number>(index.short);
+    gramCounts(cleanTarget, 3).forEach((_, gram) => index.trigrams.get(gram)?.forEach(i => keep.add(i)));
+
+    const sharedBigrams = new Map<number, number>();
+    gramCounts(cleanTarget, 2).forEach((count, gram) => {
+      index.bigrams.get(gram)?.forEach(p => sharedBigrams.set(p.index, (sharedBigrams.get(p.index) || 0) + Math.min(count, p.count)));
+    });
+
+    index.cleaned.forEach((cleaned, i) => {
+      if (keep.has(i)) return;
+      const maxLength = Math.max(cleaned.length, cleanTarget.length);
+      const maxEdits = Math.floor(MAX_EDIT_RATIO * maxLength);
+      if (Math.abs(cleaned.length - cleanTarget.length) > maxEdits) return;
+      if ((sharedBigrams.get(i) || 0) < maxLength - 1 - 2 * maxEdits) return;
+      keep.add(i);
+    });
+    survivors = Array.from(keep).sort((a, b) => a - b);
+  }
+
+  const scored: ScoredCandidate[] = [];
+  for (const i of survivors) {
+    const score = getSimilarityScore(target, candidates[i]);
+    if (score > FUZZY_THRESHOLD) scored.push({ index: i, match: candidates[i], score });
+  }
+  index.cache.set(cleanTarget, scored);
+  return scored;
+};
+
+const findBestMatch = (
+    target: string,
+    candidates: string[],
+    index = locationIndexFor(candidates)
+): { match: string, score: number } | null => {
+    let best: ScoredCandidate | null = null;
+
+    // Candidates come back in list order, so the first of equal scores wins as before
+    for (const candidate of scoreCandidates(target, candidates, index)) {
+        if (!best || candidate.score > best.score) {
+            best = candidate;
+        }
+    }
+
+    return best ? { match: best.match, score: best.score } : null;
+};
+
+// All candidates above the fuzzy threshold, best first (ties keep candidate order)
+const rankMatches = (target: string, candidates: string[], limit: number): { match: string, score: number }[] => {
+    return scoreCandidates(target, candidates, locationIndexFor(candidates))
+        .map(({ match, score }) => ({ match, score }))
+        .sort((a, b) => b.score - a.score)
+        .slice(0, limit);
+};
+
+// --- Matching Benchmark ---
+
+// The unindexed scan every lookup used to do; kept as the reference for the benchmark
+const findBestMatchByScan = (target: string, candidates: string[]): { match: string, score: number } | null => {
     let bestMatch = null;
     let bestScore = 0;
 
@@ -112,330 +421,2629 @@ const findBestMatch = (target: string, candidates: string[]): { match: string, s
         }
     }
 
-    // Threshold for accepting a fuzzy match
-    return bestScore > 0.55 ? { match: bestMatch!, score: bestScore } : null;
+    return bestScore > FUZZY_THRESHOLD ? { match: bestMatch!, score: bestScore } : null;
 };
 
-// --- CSV Parser ---
+export interface MatchBenchmark {
+  lookups: number;     // Pickup and drop spellings looked up
+  candidates: number;  // Rate-sheet pickups + drops
+  scanMs: number;      // Full scan per lookup
+  indexBuildMs: number;
+  indexedMs: number;   // First pass through a fresh index (no cached results)
+  cachedMs: number;    // Second pass, every spelling cached
+  mismatches: string[]; // Spellings where the indexed result differed from the scan; should be empty
+}
 
-export const parseRatesCSV = (file: File): Promise<RateData> => {
-  return new Promise((resolve, reject) => {
-    Papa.parse(file, {
-      header: true,
-      skipEmptyLines: true,
-      complete: (results) => {
-        const rateMap: RateMap = {};
-        const pickups = new Set<string>();
-        const drops = new Set<string>();
-
-        results.data.forEach((row: any) => {
-          const pick = row['PickLoc']?.trim().toUpperCase();
-          const drop = row['DropLoc']?.trim().toUpperCase();
-          const rate = parseFloat(row['Driver Rev_Rate']);
-
-          if (pick && drop && !isNaN(rate)) {
-            const key = `${pick}|${drop}`;
-            rateMap[key] = rate;
-            pickups.add(pick);
-            drops.add(drop);
-          }
-        });
-        resolve({
-            rateMap,
-            validPickups: Array.from(pickups),
-            validDrops: Array.from(drops)
-        });
-      },
-      error: (err) => reject(err),
-    });
-  });
-};
+/**
+ * Times the full-scan matcher against the indexed one on the given spellings and checks
+ * that both pick the same location with the same score.
+ */
+export const benchmarkMatching = (rateData: RateData, pickups: string[], drops: string[]): MatchBenchmark => {
+  const sides: [string[], string[]][] = [[pickups, rateData.validPickups], [drops, rateData.validDrops]];
+  const now = () => performance.now();
 
-// --- PDF Parser ---
+  let start = now();
+  const scanned = sides.map(([targets, candidates]) => targets.map(t => findBestMatchByScan(t, candidates)));
+  const scanMs = now() - start;
 
-const isTransactionRow = (items: string[]) => {
-    if (items.length < 8) return false;
-    const dateRegex = /\d{2}-\d{2}-\d{4}/;
-    return dateRegex.test(items[1]); 
+  // Fresh indexes so the timing includes building them and a cold cache
+  start = now();
+  const indexes = sides.map(([, candidates]) => buildLocationIndex(candidates));
+  const indexBuildMs = now() - start;
+
+  const indexedPass = () => sides.map(([targets, candidates], side) => targets.map(t => findBestMatch(t, candidates, indexes[side])));
+
+  start = now();
+  const indexed = indexedPass();
+  const indexedMs = now() - start;
+
+  start = now();
+  indexedPass();
+  const cachedMs = now() - start;
+
+  const mismatches: string[] = [];
+  sides.forEach(([targets], side) => targets.forEach((t, i) => {
+    const a = scanned[side][i];
+    const b = indexed[side][i];
+    if (a?.match !== b?.match || a?.score !== b?.score) mismatches.push(t);
+  }));
+
+  return {
+    lookups: pickups.length + drops.length,
+    candidates: rateData.validPickups.length + rateData.validDrops.length,
+    scanMs,
+    indexBuildMs,
+    indexedMs,
+    cachedMs,
+    mismatches
+  };
 };
 
-export const parseDriverPDF = async (file: File, rateData: RateData): Promise<DriverReport[]> => {
-  const { rateMap, validPickups, validDrops } = rateData;
-  const arrayBuffer = await file.arrayBuffer();
-  // @ts-ignore
-  const pdf = await pdfjsLib.getDocument(arrayBuffer).promise;
-  const reports: DriverReport[] = [];
+// Ranked fuzzy matches kept per side when pairing routes
+const MAX_SIDE_MATCHES = 25;
 
-  let currentDriver: DriverReport | null = null;
+// An exact or aliased rate-sheet spelling pins its side at full confidence; otherwise every fuzzy match above the threshold
+const sideMatches = (value: string, candidates: string[], aliases: LocationAliasMap): { match: string, score: number }[] => {
+    const { locations } = locationIndexFor(candidates);
+    const normalized = normalizeLocation(value);
+    const pinned = [normalized, aliases[normalized]].find(v => v && locations.has(v));
+    return pinned ? [{ match: pinned, score: 1 }] : rankMatches(value, candidates, MAX_SIDE_MATCHES);
+};
 
-  for (let i = 1; i <= pdf.numPages; i++) {
-    const page = await pdf.getPage(i);
-    const textContent = await page.getTextContent();
-    
-    const rows: { y: number; items: { x: number; str: string }[] }[] = [];
-    
-    textContent.items.forEach((item: any) => {
-      const existingRow = rows.find(r => Math.abs(r.y - item.transform[5]) < 5);
-      if (existingRow) {
-        existingRow.items.push({ x: item.transform[4], str: item.str });
-      } else {
-        rows.push({ y: item.transform[5], items: [{ x: item.transform[4], str: item.str }] });
-      }
+/**
+ * Rate-sheet routes that could stand in for a PDF pickup/drop pair, best combined score first.
+ * Only pairs that exist in the rate sheet are scored, so a weaker pickup that forms a real
+ * route still beats a stronger one that doesn't.
+ */
+export const getRouteCandidates = (
+    pickup: string,
+    drop: string,
+    rateData: RateData,
+    limit = 5,
+    aliases: LocationAliasMap = {}
+): RouteCandidate[] => {
+    const pickups = sideMatches(pickup, rateData.validPickups, aliases);
+    const drops = sideMatches(drop, rateData.validDrops, aliases);
+    const candidates: RouteCandidate[] = [];
+
+    pickups.forEach(p => {
+        drops.forEach(d => {
+            const key = routeKey(p.match, d.match);
+            if (rateData.rateMap.hasOwnProperty(key)) {
+                candidates.push({
+                    pickup: p.match,
+                    drop: d.match,
+                    pickupScore: p.score,
+                    dropScore: d.score,
+                    score: (p.score + d.score) / 2,
+                    rate: rateData.rateMap[key]
+                });
+            }
+        });
     });
 
-    rows.sort((a, b) => b.y - a.y);
-    rows.forEach(row => row.items.sort((a, b) => a.x - b.x));
+    // Stable sort: equal scores keep the best-pickup-first order
+    return candidates
+        .sort((a, b) => b.score - a.score)
+        .slice(0, limit);
+};
 
-    for (const row of rows) {
-        const rowText = row.items.map(it => it.str.trim()).filter(s => s.length > 0);
-        const fullLine = rowText.join(' ');
+// --- Commission Helpers ---
 
-        if (fullLine.includes("Driver Name :")) {
-            if (currentDriver) {
-                reports.push(currentDriver);
-            }
-            const namePart = fullLine.split("Driver Name :")[1]?.trim() || "Unknown";
-            currentDriver = {
-                driverName: namePart,
-                transactions: [],
-                totalOriginalComm: 0,
-                totalNewComm: 0,
-                mismatchedTrips: 0,
-                fuzzyTrips: 0,
-                rawTextLines: []
-            };
-            continue;
-        }
+export const calculateCommission = (effWt: number, rate: number): number => (effWt * rate) / 10;
 
-        if (!currentDriver) continue;
+export const STANDARD_RULE_NAME = 'Standard';
 
-        if (isTransactionRow(rowText)) {
-            const truck = rowText[0];
-            const date = rowText[1];
-            const pickup = rowText[2];
-            const drop = rowText[3];
-            const doNumber = rowText[4];
-            const effWt = parseFloat(rowText[5]);
-            const originalEffRt = parseFloat(rowText[6]);
+const sameText = (criterion: string | undefined, value: string | undefined): boolean =>
+  !criterion || normalizeLocation(criterion) === normalizeLocation(value || '');
 
-            let commIndex = 9;
-            if(rowText.length < 11) {
-               commIndex = rowText.length - 2;
-            }
+// The first rule whose criteria all match the trip
+export const selectCommissionRule = (t: Transaction, rules: CommissionRule[]): CommissionRule | undefined => {
+  const pickup = t.matchType === 'NONE' ? t.pickup : t.matchedPickup || t.pickup;
+  const drop = t.matchType === 'NONE' ? t.drop : t.matchedDrop || t.drop;
+  return rules.find(rule =>
+    sameText(rule.pickup, pickup) && sameText(rule.drop, drop) &&
+    sameText(rule.truck, t.truck) && sameText(rule.customer, t.customer)
+  );
+};
 
-             const originalComm = parseFloat(rowText[commIndex]);
-             const ot = rowText[rowText.length - 1];
-
-             if (!isNaN(effWt)) {
-                 const exactKey = `${pickup.toUpperCase()}|${drop.toUpperCase()}`;
-                 
-                 let newRate = originalEffRt;
-                 let matchType: MatchType = 'NONE';
-                 let matchedPickup: string | undefined;
-                 let matchedDrop: string | undefined;
-
-                 // 1. Try Exact Match
-                 if (rateMap.hasOwnProperty(exactKey)) {
-                     newRate = rateMap[exactKey];
-                     matchType = 'EXACT';
-                 } 
-                 // 2. Try Fuzzy Match
-                 else {
-                     const fuzzyPick = findBestMatch(pickup, validPickups);
-                     const fuzzyDrop = findBestMatch(drop, validDrops);
-
-                     if (fuzzyPick && fuzzyDrop) {
-                         const fuzzyKey = `${fuzzyPick.match}|${fuzzyDrop.match}`;
-                         if (rateMap.hasOwnProperty(fuzzyKey)) {
-                             newRate = rateMap[fuzzyKey];
-                             matchType = 'FUZZY';
-                             matchedPickup = fuzzyPick.match;
-                             matchedDrop = fuzzyDrop.match;
-                         }
-                     }
-                 }
-                 
-                 let newComm = 0;
-                 
-                 // LOGIC UPDATE: 
-                 // If we didn't find the route in the CSV (NONE), trust the PDF's original commission.
-                 // Otherwise, calculate using the formula.
-                 if (matchType === 'NONE') {
-                    newComm = originalComm;
-                 } else {
-                    newComm = (effWt * newRate) / 10;
-                 }
-
-                 currentDriver.transactions.push({
-                     truck,
-                     date,
-                     pickup,
-                     drop,
-                     doNumber,
-                     effWt,
-                     originalEffRt,
-                     newEffRt: newRate,
-                     originalComm,
-                     newComm,
-                     diff: newComm - originalComm,
-                     ot,
-                     matchType,
-                     matchedPickup,
-                     matchedDrop
-                 });
-
-                 currentDriver.totalOriginalComm += originalComm;
-                 currentDriver.totalNewComm += newComm;
-                 
-                 if (matchType === 'NONE') {
-                     currentDriver.mismatchedTrips += 1;
-                 } else if (matchType === 'FUZZY') {
-                     currentDriver.fuzzyTrips += 1;
-                 }
-             }
-        }
-    }
+const roundAmount = (value: number, mode: RoundingMode = 'NONE', step = 1): number => {
+  if (mode === 'NONE' || !(step > 0)) return value;
+  const fn = mode === 'UP' ? Math.ceil : mode === 'DOWN' ? Math.floor : Math.round;
+  // Work in whole steps, nudged so 2.675 / 0.01 doesn't land just under an integer
+  return fn(Number((value / step).toFixed(9))) * step;
+};
+
+// Commission from the rate and the matching rule, before any OT; null when the PDF commission stands
+const ruleCommission = (t: Transaction, rules: CommissionRule[]): { amount: number; rule: string } | null => {
+  const rate = t.matchType === 'NONE' || t.outsideRateWindow ? null : t.newEffRt;
+  const rule = selectCommissionRule(t, rules);
+
+  if (!rule) {
+    return rate === null ? null : { amount: calculateCommission(t.effWt, rate), rule: STANDARD_RULE_NAME };
   }
 
-  if (currentDriver) {
-    reports.push(currentDriver);
+  let amount: number;
+  if (rule.flatAmount !== undefined) {
+    amount = rule.flatAmount;
+  } else if (rate === null) {
+    return null;
+  } else {
+    amount = (Math.max(t.effWt, rule.minWeight ?? 0) * rate) / (rule.divisor || 10);
   }
+  amount = roundAmount(amount + (rule.bonus ?? 0), rule.rounding, rule.roundTo);
+  if (rule.cap !== undefined) amount = Math.min(amount, rule.cap);
 
-  return reports;
+  return { amount, rule: rule.name };
 };
 
-// --- Export CSVs ---
+const overtimeAmount = (base: number, overtime: Overtime | undefined, rules: OvertimeRule[]): number => {
+  if (!overtime) return 0;
+  const rule = rules.find(r => normalizeLocation(r.code) === overtime.code);
+  if (!rule) return 0;
+  const addOn = (rule.addOn ?? 0) * (rule.perHour && overtime.hours !== undefined ? overtime.hours : 1);
+  return base * ((rule.multiplier ?? 1) - 1) + addOn;
+};
 
-export const generateMismatchCSV = (reports: DriverReport[]) => {
-  const rows: any[] = [];
-  reports.forEach(r => {
-    r.transactions.forEach(t => {
-      if (t.matchType === 'NONE') {
-        rows.push({
-          'Driver': r.driverName,
-          'Date': t.date,
-          'Truck': t.truck,
-          'Pickup': t.pickup,
-          'Drop': t.drop,
-          'DO Number': t.doNumber,
-          'Weight': t.effWt,
-          'Old Rate': t.originalEffRt
-        });
-      }
-    });
-  });
+/**
+ * Sets newComm, diff, commissionRule and overtimeAmount from the trip's rate and the config.
+ * Trips without a usable rate keep the PDF commission (OT and all) unless a flat-rate rule covers them.
+ */
+export const applyCommissionRule = (t: Transaction, config: CommissionConfig): Transaction => {
+  const base = ruleCommission(t, config.rules);
+  if (!base) {
+    return { ...t, newComm: t.originalComm, diff: 0, commissionRule: undefined, overtimeAmount: undefined };
+  }
 
-  if (rows.length === 0) return;
+  const extra = overtimeAmount(base.amount, t.overtime, config.overtime);
+  const newComm = base.amount + extra;
+  return {
+    ...t,
+    newComm,
+    diff: newComm - t.originalComm,
+    commissionRule: base.rule,
+    overtimeAmount: extra !== 0 ? extra : undefined
+  };
+};
+
+// Re-run the rules over every trip, e.g. after they were edited
+export const applyCommissionRules = (reports: DriverReport[], config: CommissionConfig): DriverReport[] =>
+  reports.map(r => recalculateTotals({ ...r, transactions: r.transactions.map(t => applyCommissionRule(t, config)) }));
+
+export const normalizeLocation = (value: string): string => value.trim().toUpperCase().replace(/\s+/g, ' ');
 
-  const csv = Papa.unparse(rows);
-  const blob = new Blob([csv], { type: 'text/csv;charset=utf-8;' });
+export const routeKey = (pickup: string, drop: string): string =>
+  `${normalizeLocation(pickup)}|${normalizeLocation(drop)}`;
+
+export const downloadFile = (content: BlobPart, filename: string, type: string) => {
+  const blob = new Blob([content], { type });
   const url = URL.createObjectURL(blob);
   const link = document.createElement('a');
   link.href = url;
-  link.setAttribute('download', 'mismatched_routes.csv');
+  link.setAttribute('download', filename);
   document.body.appendChild(link);
   link.click();
   document.body.removeChild(link);
 };
 
-export const generateAllTripsCSV = (reports: DriverReport[]) => {
-  const rows: any[] = [];
+// Accepts dd-mm-yyyy, dd/mm/yyyy, dd.mm.yyyy or yyyy-mm-dd and returns yyyy-mm-dd
+export const toISODate = (value: string): string | null => {
+  const trimmed = value.trim();
+  let match = trimmed.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  if (match) {
+    return `${match[1]}-${match[2].padStart(2, '0')}-${match[3].padStart(2, '0')}`;
+  }
+  match = trimmed.match(/(\d{1,2})[-/.](\d{1,2})[-/.](\d{4})/);
+  if (match) {
+    return `${match[3]}-${match[2].padStart(2, '0')}-${match[1].padStart(2, '0')}`;
+  }
+  return null;
+};
+
+const formatISODate = (iso: string): string => iso.split('-').reverse().join('-');
+
+export const formatRateVersion = (version: RateVersion): string | undefined => {
+  if (version.from && version.to) return `${formatISODate(version.from)} to ${formatISODate(version.to)}`;
+  if (version.from) return `from ${formatISODate(version.from)}`;
+  if (version.to) return `until ${formatISODate(version.to)}`;
+  return undefined;
+};
+
+type RateLookup = { status: 'OK'; rate: number; version: RateVersion } | { status: 'OUTSIDE' };
+
+// Rate for a route on a trip date; the latest-starting version wins when windows overlap
+export const lookupRate = (rateData: RateData, key: string, tripDate: string): RateLookup | null => {
+  const versions = rateData.rateVersions[key];
+  if (!versions || versions.length === 0) return null;
+
+  const isoDate = toISODate(tripDate);
+  if (!isoDate) {
+    return { status: 'OK', rate: rateData.rateMap[key], version: currentVersion(versions) };
+  }
+
+  const valid = versions.filter(v => (!v.from || v.from <= isoDate) && (!v.to || v.to >= isoDate));
+  if (valid.length === 0) return { status: 'OUTSIDE' };
+
+  const version = currentVersion(valid);
+  return { status: 'OK', rate: version.rate, version };
+};
+
+// Latest effective-from (undated counts as earliest); later entries win ties
+const currentVersion = (versions: RateVersion[]): RateVersion => {
+  return versions.reduce((best, v) => ((v.from || '') >= (best.from || '') ? v : best));
+};
+
+type PricedFields = Pick<Transaction, 'newEffRt' | 'newComm' | 'diff' | 'rateVersion' | 'outsideRateWindow'>;
+
+// Price a trip against a rate-sheet route; outside every validity window it keeps the PDF commission
+const priceAgainstRoute = (
+  trip: Pick<Transaction, 'date' | 'effWt' | 'originalEffRt' | 'originalComm'>,
+  rateData: RateData,
+  key: string
+): PricedFields => {
+  const lookup = lookupRate(rateData, key, trip.date);
+  if (!lookup || lookup.status === 'OUTSIDE') {
+    return {
+      newEffRt: trip.originalEffRt,
+      newComm: trip.originalComm,
+      diff: 0,
+      rateVersion: undefined,
+      outsideRateWindow: true
+    };
+  }
+
+  const newComm = calculateCommission(trip.effWt, lookup.rate);
+  return {
+    newEffRt: lookup.rate,
+    newComm,
+    diff: newComm - trip.originalComm,
+    rateVersion: formatRateVersion(lookup.version),
+    outsideRateWindow: undefined
+  };
+};
+
+// Flagged DO numbers only count once someone keeps the trip
+export const isHeldBack = (t: Transaction): boolean => !!t.doIssue && t.doResolution !== 'KEEP';
+
+// Rebuild the per-driver totals from its transactions
+export const recalculateTotals = (report: DriverReport): DriverReport => {
+  let totalOriginalComm = 0;
+  let totalNewComm = 0;
+  let mismatchedTrips = 0;
+  let fuzzyTrips = 0;
+
+  report.transactions.forEach(t => {
+    if (isHeldBack(t)) return;
+    totalOriginalComm += t.originalComm;
+    totalNewComm += t.newComm;
+    if (t.matchType === 'NONE') {
+      mismatchedTrips += 1;
+    } else if (t.matchType === 'FUZZY') {
+      fuzzyTrips += 1;
+    }
+  });
+
+  return {
+    ...report,
+    totalOriginalComm,
+    totalNewComm,
+    mismatchedTrips,
+    fuzzyTrips,
+    reconciliation: reconcileWithPdfTotals(report.transactions, report.pdfTotals)
+  };
+};
+
+const TOTAL_TOLERANCE = 0.01;
+
+// Compare what we parsed (PDF-side figures only) against the totals the PDF prints
+export const reconcileWithPdfTotals = (transactions: Transaction[], totals: PdfTotals): Reconciliation => {
+  const { trips, weight, commission } = totals;
+  if (trips === undefined && weight === undefined && commission === undefined) {
+    return { status: 'NO_TOTALS', issues: [] };
+  }
+
+  const issues: string[] = [];
+  const parsedWeight = transactions.reduce((sum, t) => sum + t.effWt, 0);
+  const parsedComm = transactions.reduce((sum, t) => sum + t.originalComm, 0);
+
+  if (trips !== undefined && trips !== transactions.length) {
+    issues.push(`Trips: PDF ${trips}, parsed ${transactions.length}`);
+  }
+  if (weight !== undefined && Math.abs(weight - parsedWeight) > TOTAL_TOLERANCE) {
+    issues.push(`Weight: PDF ${weight.toFixed(2)}, parsed ${parsedWeight.toFixed(2)}`);
+  }
+  if (commission !== undefined && Math.abs(commission - parsedComm) > TOTAL_TOLERANCE) {
+    issues.push(`Commission: PDF ${commission.toFixed(2)}, parsed ${parsedComm.toFixed(2)}`);
+  }
+
+  return { status: issues.length > 0 ? 'MISMATCH' : 'MATCHED', issues };
+};
+
+// Apply a rate (or an existing rate-sheet route) to every unmatched trip on the given route, across all drivers
+export const resolveMissingRoute = (
+  reports: DriverReport[],
+  pickup: string,
+  drop: string,
+  resolution: RouteResolution,
+  rateData: RateData,
+  config: CommissionConfig = EMPTY_COMMISSION_CONFIG
+): DriverReport[] => {
+  const targetKey = routeKey(pickup, drop);
+
+  let sheetKey: string | undefined;
+  let matchedPickup: string | undefined;
+  let matchedDrop: string | undefined;
+
+  if (resolution.type === 'ROUTE') {
+    sheetKey = routeKey(resolution.pickup, resolution.drop);
+    if (!rateData.rateMap.hasOwnProperty(sheetKey)) {
+      throw new Error(`Route ${resolution.pickup} → ${resolution.drop} is not in the rate sheet.`);
+    }
+    [matchedPickup, matchedDrop] = sheetKey.split('|');
+  }
+
+  return reports.map(report => {
+    let changed = false;
+    const transactions = report.transactions.map(t => {
+      if (t.matchType !== 'NONE' || routeKey(t.pickup, t.drop) !== targetKey) return t;
+      changed = true;
+
+      // A typed-in rate applies to every date; a sheet route uses the version valid on each trip date
+      let priced: PricedFields;
+      if (resolution.type === 'RATE') {
+        const newComm = calculateCommission(t.effWt, resolution.rate);
+        priced = { newEffRt: resolution.rate, newComm, diff: newComm - t.originalComm, rateVersion: undefined, outsideRateWindow: undefined };
+      } else {
+        priced = priceAgainstRoute(t, rateData, sheetKey!);
+      }
+
+      return applyCommissionRule({
+        ...t,
+        ...priced,
+        matchType: 'MANUAL' as MatchType,
+        matchedPickup,
+        matchedDrop,
+        reviewStatus: undefined
+      }, config);
+    });
+    return changed ? recalculateTotals({ ...report, transactions }) : report;
+  });
+};
+
+// Undo a manual resolution: trips on the route go back to the PDF's original commission (or a flat-rate rule)
+export const clearRouteResolution = (
+  reports: DriverReport[],
+  pickup: string,
+  drop: string,
+  config: CommissionConfig = EMPTY_COMMISSION_CONFIG
+): DriverReport[] => {
+  const targetKey = routeKey(pickup, drop);
+
+  return reports.map(report => {
+    let changed = false;
+    const transactions = report.transactions.map(t => {
+      if (t.matchType !== 'MANUAL' || routeKey(t.pickup, t.drop) !== targetKey) return t;
+      changed = true;
+      return applyCommissionRule({
+        ...t,
+        newEffRt: t.originalEffRt,
+        newComm: t.originalComm,
+        diff: 0,
+        matchType: 'NONE' as MatchType,
+        matchedPickup: undefined,
+        matchedDrop: undefined,
+        rateVersion: undefined,
+        outsideRateWindow: undefined
+      }, config);
+    });
+    return changed ? recalculateTotals({ ...report, transactions }) : report;
+  });
+};
+
+// --- Fuzzy Review ---
+
+export const getFuzzyMappings = (reports: DriverReport[]): FuzzyMapping[] => {
+  const mappings = new Map<string, FuzzyMapping & { drivers: Set<string> }>();
+
   reports.forEach(r => {
     r.transactions.forEach(t => {
-      rows.push({
-        'Driver': r.driverName,
-        'Date': t.date,
-        'Truck': t.truck,
-        'Pickup': t.pickup,
-        'Drop': t.drop,
-        'DO Number': t.doNumber,
-        'Weight': t.effWt,
-        'Old Rate': t.originalEffRt,
-        'New Rate': t.newEffRt,
-        'Old Comm': t.originalComm,
-        'New Comm': t.newComm,
-        'Diff': t.diff,
-        'Match Type': t.matchType,
-        'Matched Pickup': t.matchedPickup || '',
-        'Matched Drop': t.matchedDrop || ''
+      if (!t.reviewStatus) return;
+      const key = routeKey(t.pickup, t.drop);
+      const existing = mappings.get(key);
+      if (existing) {
+        existing.tripCount += 1;
+        existing.drivers.add(r.driverName);
+        // Trips added after a decision (e.g. from another PDF) put the route back in the queue
+        if (t.reviewStatus === 'PENDING') existing.status = 'PENDING';
+        return;
+      }
+      mappings.set(key, {
+        pickup: t.pickup,
+        drop: t.drop,
+        matchedPickup: t.matchedPickup || '',
+        matchedDrop: t.matchedDrop || '',
+        pickupScore: t.pickupScore ?? 0,
+        dropScore: t.dropScore ?? 0,
+        routeScore: t.routeScore ?? 0,
+        tripCount: 1,
+        driverCount: 0,
+        status: t.reviewStatus,
+        drivers: new Set([r.driverName])
       });
     });
   });
 
-  if (rows.length === 0) return;
+  return Array.from(mappings.values()).map(({ drivers, ...mapping }) => ({ ...mapping, driverCount: drivers.size }));
+};
 
-  const csv = Papa.unparse(rows);
-  const blob = new Blob([csv], { type: 'text/csv;charset=utf-8;' });
-  const url = URL.createObjectURL(blob);
-  const link = document.createElement('a');
-  link.href = url;
-  link.setAttribute('download', 'all_trips_data.csv');
-  document.body.appendChild(link);
-  link.click();
-  document.body.removeChild(link);
+// Number of distinct fuzzy mappings still waiting for a decision
+export const countPendingReviews = (reports: DriverReport[]): number => {
+  return getFuzzyMappings(reports).filter(m => m.status === 'PENDING').length;
 };
 
-// --- PDF Generator ---
+// Apply a reviewer's decision to every trip sharing the fuzzy mapping's PDF route
+export const reviewFuzzyMapping = (
+  reports: DriverReport[],
+  pickup: string,
+  drop: string,
+  decision: ReviewDecision,
+  rateData: RateData,
+  config: CommissionConfig = EMPTY_COMMISSION_CONFIG
+): DriverReport[] => {
+  const targetKey = routeKey(pickup, drop);
 
-export const generatePDF = (reports: DriverReport[]) => {
-  const doc = new jsPDF();
+  return reports.map(report => {
+    let changed = false;
+    const transactions = report.transactions.map((t): Transaction => {
+      if (!t.reviewStatus || routeKey(t.pickup, t.drop) !== targetKey) return t;
+      changed = true;
 
-  reports.forEach((report, index) => {
-    if (index > 0) doc.addPage();
-
-    doc.setFontSize(14);
-    doc.text(`Driver Incentive Report (Revised)`, 14, 15);
-    doc.setFontSize(10);
-    doc.text(`Driver Name: ${report.driverName}`, 14, 22);
-    
-    const tableData = report.transactions.map(t => {
-        let note = '';
-        if (t.matchType === 'FUZZY') {
-            note = `*Matched to: ${t.matchedPickup}->${t.matchedDrop}`;
-        }
-        
-        return [
-            t.truck,
-            t.date,
-            t.pickup + (t.matchedPickup ? `\n(${t.matchedPickup})` : ''),
-            t.drop + (t.matchedDrop ? `\n(${t.matchedDrop})` : ''),
-            t.doNumber,
-            t.effWt.toFixed(2),
-            t.originalEffRt.toFixed(2),
-            t.newEffRt.toFixed(2),
-            t.originalComm.toFixed(2),
-            t.newComm.toFixed(2),
-            (t.newComm - t.originalComm).toFixed(2)
-        ];
+      if (decision.type === 'ACCEPT') {
+        if (t.matchType === 'FUZZY') return { ...t, reviewStatus: 'ACCEPTED' };
+        // Accepting a guess that was rejected earlier prices it on the guessed route again
+        return applyCommissionRule({
+          ...t,
+          ...priceAgainstRoute(t, rateData, routeKey(t.matchedPickup ?? t.pickup, t.matchedDrop ?? t.drop)),
+          matchType: 'FUZZY',
+          reviewStatus: 'ACCEPTED'
+        }, config);
+      }
+
+      if (decision.type === 'REJECT') {
+        return applyCommissionRule({
+          ...t,
+          newEffRt: t.originalEffRt,
+          newComm: t.originalComm,
+          diff: 0,
+          matchType: 'NONE',
+          reviewStatus: 'REJECTED',
+          rateVersion: undefined,
+          outsideRateWindow: undefined
+        }, config);
+      }
+
+      const { candidate } = decision;
+      return applyCommissionRule({
+        ...t,
+        ...priceAgainstRoute(t, rateData, routeKey(candidate.pickup, candidate.drop)),
+        matchType: 'FUZZY',
+        matchedPickup: candidate.pickup,
+        matchedDrop: candidate.drop,
+        pickupScore: candidate.pickupScore,
+        dropScore: candidate.dropScore,
+        routeScore: candidate.score,
+        reviewStatus: 'ACCEPTED'
+      }, config);
+    });
+    return changed ? recalculateTotals({ ...report, transactions }) : report;
+  });
+};
+
+// --- DO Number Checks ---
+
+// Delivery orders are plain 6-12 digit numbers, sometimes printed with a "DO No." prefix
+const DO_NUMBER_PATTERN = /^\d{6,12}$/;
+
+export const normalizeDoNumber = (value: string): string =>
+  value.toUpperCase().replace(/^D\.?\s*O\.?\s*(NO\.?)?\s*[:#-]?/, '').replace(/\s+/g, '');
+
+/**
+ * Re-checks every DO number in the run. Repeats are flagged on every trip that
+ * shares the number, malformed numbers on their own trip. Resolutions survive
+ * as long as the trip is still flagged for the same reason.
+ */
+export const flagDoIssues = (reports: DriverReport[]): DriverReport[] => {
+  const drivers = new Map<string, Set<number>>();
+  reports.forEach((r, driverIndex) => r.transactions.forEach(t => {
+    const key = normalizeDoNumber(t.doNumber);
+    if (!key) return;
+    if (!drivers.has(key)) drivers.set(key, new Set());
+    drivers.get(key)!.add(driverIndex);
+  }));
+  const counts = new Map<string, number>();
+  reports.forEach(r => r.transactions.forEach(t => {
+    const key = normalizeDoNumber(t.doNumber);
+    if (key) counts.set(key, (counts.get(key) || 0) + 1);
+  }));
+
+  return reports.map(r => recalculateTotals({
+    ...r,
+    transactions: r.transactions.map(t => {
+      const key = normalizeDoNumber(t.doNumber);
+      let doIssue: DoIssue | undefined;
+      if ((counts.get(key) || 0) > 1) {
+        doIssue = drivers.get(key)!.size > 1 ? 'REPEATED_OTHER_DRIVER' : 'REPEATED_SAME_DRIVER';
+      } else if (!DO_NUMBER_PATTERN.test(key)) {
+        doIssue = 'MALFORMED';
+      }
+      return { ...t, doIssue, doResolution: doIssue && doIssue === t.doIssue ? t.doResolution : undefined };
+    })
+  }));
+};
+
+export const getDoIssueGroups = (reports: DriverReport[]): DoIssueGroup[] => {
+  const groups = new Map<string, DoIssueGroup>();
+  reports.forEach((r, driverIndex) => r.transactions.forEach((t, tripIndex) => {
+    if (!t.doIssue) return;
+    // Malformed numbers are listed per trip; repeats are grouped by number
+    const key = t.doIssue === 'MALFORMED' ? `${driverIndex}#${tripIndex}` : normalizeDoNumber(t.doNumber);
+    if (!groups.has(key)) groups.set(key, { doNumber: t.doNumber, issue: t.doIssue, trips: [] });
+    groups.get(key)!.trips.push({ driverIndex, tripIndex, driverName: r.driverName, transaction: t });
+  }));
+  return Array.from(groups.values());
+};
+
+export const countUnresolvedDoIssues = (reports: DriverReport[]): number =>
+  reports.reduce((sum, r) => sum + r.transactions.filter(t => t.doIssue && !t.doResolution).length, 0);
+
+// Keep or exclude one flagged trip; undefined puts it back on hold
+export const resolveDoIssue = (
+  reports: DriverReport[],
+  driverIndex: number,
+  tripIndex: number,
+  resolution: DoResolution | undefined
+): DriverReport[] =>
+  reports.map((r, i) => i !== driverIndex ? r : recalculateTotals({
+    ...r,
+    transactions: r.transactions.map((t, j) => (j === tripIndex && t.doIssue ? { ...t, doResolution: resolution } : t))
+  }));
+
+// --- CSV Parser ---
+
+// Raw rate sheet as read from the CSV, before any columns are interpreted
+export interface RateSheetTable {
+  fileName: string;
+  headers: string[];
+  rows: Record<string, string>[];
+}
+
+// Which CSV header holds each field the calculator needs
+export interface ColumnMapping {
+  pickup: string;
+  drop: string;
+  rate: string;
+  effectiveFrom?: string; // Optional per-row validity columns
+  effectiveTo?: string;
+}
+
+export const readRateSheet = (file: File): Promise<RateSheetTable> => {
+  return new Promise((resolve, reject) => {
+    Papa.parse(file, {
+      header: true,
+      skipEmptyLines: true,
+      complete: (results: any) => {
+        const headers: string[] = (results.meta.fields || []).filter((h: string) => h.trim().length > 0);
+        if (headers.length === 0) {
+          reject(new Error("The CSV file has no header row."));
+          return;
+        }
+        resolve({ fileName: file.name, headers, rows: results.data });
+      },
+      error: (err: any) => reject(err),
+    });
+  });
+};
+
+// Identifies a sheet layout by its set of headers, so a saved mapping can be reused
+export const layoutSignature = (headers: string[]): string => {
+  return headers.map(h => h.trim().toUpperCase()).sort().join('|');
+};
+
+const COLUMN_HINTS: Record<keyof ColumnMapping, { exact?: string; patterns: RegExp[] }> = {
+  pickup: { exact: 'PickLoc', patterns: [/pick/i, /origin/i, /^from\b/i, /^load/i] },
+  drop: { exact: 'DropLoc', patterns: [/drop/i, /dest/i, /deliver/i, /unload/i, /^to\b/i] },
+  rate: { exact: 'Driver Rev_Rate', patterns: [/driver.*rate/i, /rev.?rate/i, /rate/i, /tariff/i, /price/i] },
+  effectiveFrom: { patterns: [/eff.*from/i, /valid.*from/i, /start/i] },
+  effectiveTo: { patterns: [/eff.*to/i, /valid.*(to|until)/i, /expir/i, /end/i] }
+};
+
+// Best guess for each field: the legacy column name first, then the first header matching a hint (in hint order)
+export const suggestColumnMapping = (headers: string[]): Partial<ColumnMapping> => {
+  const suggestion: Partial<ColumnMapping> = {};
+  const used = new Set<string>();
+
+  (Object.keys(COLUMN_HINTS) as (keyof ColumnMapping)[]).forEach(field => {
+    const { exact, patterns } = COLUMN_HINTS[field];
+    let match = exact ? headers.find(h => h.trim().toUpperCase() === exact.toUpperCase()) : undefined;
+    for (const pattern of patterns) {
+      if (match) break;
+      match = headers.find(h => !used.has(h) && pattern.test(h));
+    }
+    if (match) {
+      suggestion[field] = match;
+      used.add(match);
+    }
+  });
+
+  return suggestion;
+};
+
+// Row-level date when the column is mapped and filled, else the sheet-wide date; null if the cell is unreadable
+const rowDate = (row: Record<string, string>, column: string | undefined, fallback: string | undefined): string | undefined | null => {
+  const cell = column ? row[column]?.trim() : '';
+  if (!cell) return fallback;
+  return toISODate(cell);
+};
+
+type InterpretedRow =
+  | { ok: true; pick: string; drop: string; rate: number; from?: string; to?: string }
+  | { ok: false; reason: string };
+
+const interpretRow = (row: Record<string, string>, mapping: ColumnMapping, validity: RateSheetValidity): InterpretedRow => {
+  const pick = row[mapping.pickup] ? normalizeLocation(row[mapping.pickup]) : '';
+  const drop = row[mapping.drop] ? normalizeLocation(row[mapping.drop]) : '';
+  const rawRate = (row[mapping.rate] || '').trim();
+  const rate = parseFloat(rawRate.replace(/,/g, ''));
+  const from = rowDate(row, mapping.effectiveFrom, validity.from);
+  const to = rowDate(row, mapping.effectiveTo, validity.to);
+
+  if (!pick) return { ok: false, reason: `Missing pickup in "${mapping.pickup}"` };
+  if (!drop) return { ok: false, reason: `Missing drop in "${mapping.drop}"` };
+  if (isNaN(rate)) return { ok: false, reason: rawRate ? `Rate "${rawRate}" is not a number` : 'Missing rate' };
+  if (from === null) return { ok: false, reason: `Unreadable effective-from date "${row[mapping.effectiveFrom!]}"` };
+  if (to === null) return { ok: false, reason: `Unreadable effective-to date "${row[mapping.effectiveTo!]}"` };
+  return { ok: true, pick, drop, rate, from, to };
+};
+
+// How rows for the same route and validity window with different rates are resolved
+export type ConflictPolicy = 'FIRST' | 'LAST' | 'HIGHEST' | 'BLOCK';
+
+// Sheet line numbers below count the header as line 1
+export interface RateConflict {
+  key: string;
+  window?: string;
+  entries: { line: number; rate: number }[];
+}
+
+export interface SkippedRateRow {
+  line: number;
+  reason: string;
+}
+
+export interface SuspiciousRate {
+  line: number;
+  key: string;
+  rate: number;
+  reason: string;
+}
+
+export interface NearDuplicateLocation {
+  first: string;
+  second: string;
+  score: number;
+}
+
+export interface RateSheetValidation {
+  totalRows: number;
+  usableRows: number;
+  conflicts: RateConflict[];
+  skipped: SkippedRateRow[];
+  suspicious: SuspiciousRate[];
+  nearDuplicates: NearDuplicateLocation[];
+}
+
+const OUTLIER_FACTOR = 3;
+const NEAR_DUPLICATE_SCORE = 0.85;
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+// Spelling variants of the same place: identical once punctuation/spacing is dropped, or a small edit apart
+const findNearDuplicateLocations = (locations: string[]): NearDuplicateLocation[] => {
+  const compact = locations.map(l => l.replace(/[^A-Z0-9]/g, ''));
+  const found: NearDuplicateLocation[] = [];
+
+  for (let i = 0; i < locations.length; i++) {
+    for (let j = i + 1; j < locations.length; j++) {
+      const a = compact[i];
+      const b = compact[j];
+      const maxLength = Math.max(a.length, b.length);
+      if (maxLength === 0) continue;
+      // Length difference alone already rules the pair out
+      if (1 - Math.abs(a.length - b.length) / maxLength < NEAR_DUPLICATE_SCORE) continue;
+
+      const score = a === b ? 1 : 1 - levenshteinDistance(a, b) / maxLength;
+      if (score >= NEAR_DUPLICATE_SCORE) {
+        found.push({ first: locations[i], second: locations[j], score });
+      }
+    }
+  }
+  return found.sort((x, y) => y.score - x.score);
+};
+
+export const validateRateSheet = (
+  table: RateSheetTable,
+  mapping: ColumnMapping,
+  validity: RateSheetValidity = {}
+): RateSheetValidation => {
+  const skipped: SkippedRateRow[] = [];
+  const suspicious: SuspiciousRate[] = [];
+  const byWindow = new Map<string, RateConflict>();
+  const ratesByPickup = new Map<string, { line: number; key: string; rate: number }[]>();
+  const locations = new Set<string>();
+  let usableRows = 0;
+
+  table.rows.forEach((row, index) => {
+    const line = index + 2;
+    const parsed = interpretRow(row, mapping, validity);
+    if (!parsed.ok) {
+      skipped.push({ line, reason: parsed.reason });
+      return;
+    }
+    usableRows += 1;
+
+    const key = routeKey(parsed.pick, parsed.drop);
+    const window = formatRateVersion({ rate: parsed.rate, from: parsed.from, to: parsed.to });
+    const windowKey = `${key}#${parsed.from || ''}#${parsed.to || ''}`;
+    const group = byWindow.get(windowKey) || { key, window, entries: [] };
+    group.entries.push({ line, rate: parsed.rate });
+    byWindow.set(windowKey, group);
+
+    if (parsed.rate <= 0) {
+      suspicious.push({ line, key, rate: parsed.rate, reason: parsed.rate === 0 ? 'Zero rate' : 'Negative rate' });
+    } else {
+      const list = ratesByPickup.get(parsed.pick) || [];
+      list.push({ line, key, rate: parsed.rate });
+      ratesByPickup.set(parsed.pick, list);
+    }
+
+    locations.add(parsed.pick);
+    locations.add(parsed.drop);
+  });
+
+  // Rates far from the other routes out of the same pickup
+  ratesByPickup.forEach(list => {
+    if (list.length < 3) return;
+    const typical = median(list.map(r => r.rate));
+    list.forEach(r => {
+      if (r.rate > typical * OUTLIER_FACTOR || r.rate < typical / OUTLIER_FACTOR) {
+        suspicious.push({ ...r, reason: `Far from the pickup's median rate of ${typical.toFixed(2)}` });
+      }
+    });
+  });
+
+  const conflicts = Array.from(byWindow.values())
+    .filter(c => new Set(c.entries.map(e => e.rate)).size > 1);
+
+  return {
+    totalRows: table.rows.length,
+    usableRows,
+    conflicts,
+    skipped,
+    suspicious: suspicious.sort((a, b) => a.line - b.line),
+    nearDuplicates: findNearDuplicateLocations(Array.from(locations).sort())
+  };
+};
+
+export const buildRateData = (
+  table: RateSheetTable,
+  mapping: ColumnMapping,
+  validity: RateSheetValidity = {},
+  policy: ConflictPolicy = 'LAST'
+): RateData => {
+  const rateVersions: { [key: string]: RateVersion[] } = {};
+  const pickups = new Set<string>();
+  const drops = new Set<string>();
+  let conflictCount = 0;
+
+  table.rows.forEach(row => {
+    const parsed = interpretRow(row, mapping, validity);
+    if (!parsed.ok) return;
+
+    const { pick, drop, rate, from, to } = parsed;
+    const key = routeKey(pick, drop);
+    const versions = rateVersions[key] || (rateVersions[key] = []);
+    const sameWindow = versions.find(v => v.from === from && v.to === to);
+    if (sameWindow) {
+      if (sameWindow.rate !== rate) conflictCount += 1;
+      if (policy === 'LAST' || policy === 'BLOCK') {
+        sameWindow.rate = rate;
+      } else if (policy === 'HIGHEST') {
+        sameWindow.rate = Math.max(sameWindow.rate, rate);
+      }
+    } else {
+      versions.push({ rate, from, to });
+    }
+    pickups.add(pick);
+    drops.add(drop);
+  });
+
+  if (policy === 'BLOCK' && conflictCount > 0) {
+    throw new Error(`${table.fileName} has ${conflictCount} conflicting duplicate rate row(s). Fix the sheet or choose how conflicts are resolved.`);
+  }
+
+  const rateMap: RateMap = {};
+  Object.entries(rateVersions).forEach(([key, versions]) => {
+    rateMap[key] = currentVersion(versions).rate;
+  });
+
+  if (Object.keys(rateMap).length === 0) {
+    throw new Error(`No usable rate rows in ${table.fileName} with columns "${mapping.pickup}", "${mapping.drop}" and "${mapping.rate}".`);
+  }
+
+  return {
+    rateMap,
+    rateVersions,
+    validPickups: Array.from(pickups),
+    validDrops: Array.from(drops)
+  };
+};
+
+// --- PDF Parser ---
+
+// A positioned text fragment from pdf.js, reduced to what the parser reads
+export interface TextItem {
+  x: number;
+  y: number;
+  width: number;
+  str: string;
+}
+
+interface TextRow {
+  y: number;
+  items: TextItem[];
+}
+
+// Table fields the parser reads; other header columns only bound their neighbours
+type TableField = 'truck' | 'customer' | 'date' | 'pickup' | 'drop' | 'doNumber' | 'effWt' | 'effRt' | 'comm' | 'ot';
+type TripCells = Record<TableField, string>;
+
+interface TableColumn {
+  field: TableField | null;
+  label: string;
+  start: number; // x-range owned by this column
+  end: number;
+}
+
+const DATE_PATTERN = /\d{2}-\d{2}-\d{4}/;
+// Looser shapes used only to spot lines that resemble trips
+const LOOSE_DATE_PATTERN = /\b\d{1,2}[-/.]\d{1,2}[-/.]\d{2,4}\b/;
+const DO_PATTERN = /\bD\.?O\.?\s*(NO\.?)?\s*[:#-]?\s*\d+|\b\d{6,}\b/i;
+const ROW_TOLERANCE = 5;     // Items within this many units vertically share a row
+const HEADER_WORD_GAP = 4;   // Header words closer than this belong to the same label
+const MAX_WRAP_GAP = 20;     // A wrapped cell line must sit this close below its trip row
+
+const emptyCells = (): TripCells => ({
+  truck: '', customer: '', date: '', pickup: '', drop: '', doNumber: '', effWt: '', effRt: '', comm: '', ot: ''
+});
+
+const parseNumber = (value: string): number => parseFloat(value.replace(/,/g, ''));
+
+export const toTextItems = (items: any[]): TextItem[] =>
+  items
+    .filter((item: any) => typeof item.str === 'string')
+    .map((item: any) => ({ x: item.transform[4], y: item.transform[5], width: item.width || 0, str: item.str }));
+
+/**
+ * Each item joins the earliest-created row whose y is within ROW_TOLERANCE, else starts a row.
+ * Rows are bucketed by y so only the neighbouring buckets are searched.
+ */
+const groupRows = (items: TextItem[]): TextRow[] => {
+  const rows: TextRow[] = [];
+  const buckets = new Map<number, number[]>(); // bucket -> indexes into rows, in creation order
+
+  items.forEach(item => {
+    const bucket = Math.floor(item.y / ROW_TOLERANCE);
+    let match = -1;
+    for (let b = bucket - 1; b <= bucket + 1; b++) {
+      for (const index of buckets.get(b) || []) {
+        if (Math.abs(rows[index].y - item.y) < ROW_TOLERANCE && (match === -1 || index < match)) {
+          match = index;
+          break; // Later entries in this bucket were created later
+        }
+      }
+    }
+
+    if (match !== -1) {
+      rows[match].items.push(item);
+    } else {
+      const anchor = Math.floor(item.y / ROW_TOLERANCE);
+      if (!buckets.has(anchor)) buckets.set(anchor, []);
+      buckets.get(anchor)!.push(rows.length);
+      rows.push({ y: item.y, items: [item] });
+    }
+  });
+
+  rows.sort((a, b) => b.y - a.y);
+  rows.forEach(row => row.items.sort((a, b) => a.x - b.x));
+  return rows;
+};
+
+const headerField = (label: string): TableField | null => {
+  const l = label.toUpperCase().replace(/[^A-Z0-9 ]/g, ' ').replace(/\s+/g, ' ').trim();
+  if (/COMM/.test(l)) return 'comm';
+  if (/^OT\b|OVERTIME/.test(l)) return 'ot';
+  if (/^D ?O\b|DELIVERY ORDER/.test(l)) return 'doNumber';
+  if (/TRUCK|VEHICLE|LORRY/.test(l)) return 'truck';
+  if (/CUSTOMER|PARTY|CONSIGNEE|CLIENT/.test(l)) return 'customer';
+  if (/DATE/.test(l)) return 'date';
+  if (/PICK|ORIGIN|^FROM\b/.test(l)) return 'pickup';
+  if (/DROP|DEST|^TO\b/.test(l)) return 'drop';
+  if (/\bWT\b|WEIGHT|TONN/.test(l)) return 'effWt';
+  if (/\bRT\b|RATE/.test(l)) return 'effRt';
+  return null;
+};
+
+// Recognise the table header row and derive each column's x-range from the label positions
+const detectColumns = (row: TextRow): TableColumn[] | null => {
+  const cells: { label: string; start: number; end: number }[] = [];
+  row.items.forEach(item => {
+    const text = item.str.trim();
+    if (!text) return;
+    const last = cells[cells.length - 1];
+    if (last && item.x - last.end < HEADER_WORD_GAP) {
+      last.label += ` ${text}`;
+      last.end = Math.max(last.end, item.x + item.width);
+    } else {
+      cells.push({ label: text, start: item.x, end: item.x + item.width });
+    }
+  });
+
+  const fields = cells.map(c => headerField(c.label));
+  const found = new Set(fields);
+  if (!found.has('date') || !found.has('pickup') || !found.has('drop') || !(found.has('effWt') || found.has('comm'))) {
+    return null;
+  }
+
+  // A field claimed twice keeps its "Eff" column (e.g. "Wt" vs "Eff Wt"), otherwise the first
+  const chosen = new Map<TableField, number>();
+  fields.forEach((field, i) => {
+    if (!field) return;
+    const previous = chosen.get(field);
+    if (previous === undefined || (!/EFF/i.test(cells[previous].label) && /EFF/i.test(cells[i].label))) {
+      chosen.set(field, i);
+    }
+  });
+
+  // Boundaries sit halfway across the gap between neighbouring labels
+  return cells.map((c, i) => {
+    const field = fields[i];
+    return {
+      field: field && chosen.get(field) === i ? field : null,
+      label: c.label,
+      start: i === 0 ? -Infinity : (cells[i - 1].end + c.start) / 2,
+      end: i === cells.length - 1 ? Infinity : (c.end + cells[i + 1].start) / 2
+    };
+  });
+};
+
+// The column an item overlaps most; zero-width items fall back to their start point
+const columnFor = (item: TextItem, columns: TableColumn[]): TableColumn | null => {
+  const left = item.x;
+  const right = item.x + Math.max(item.width, 0.01);
+  let best: TableColumn | null = null;
+  let bestOverlap = 0;
+
+  for (const column of columns) {
+    const overlap = Math.min(right, column.end) - Math.max(left, column.start);
+    if (overlap > bestOverlap) {
+      bestOverlap = overlap;
+      best = column;
+    }
+  }
+  return best;
+};
+
+const appendCell = (current: string, text: string): string => (current ? `${current} ${text}` : text);
+
+const splitCells = (row: TextRow, columns: TableColumn[]): TripCells => {
+  const cells = emptyCells();
+  // Top-to-bottom, then left-to-right, so text wrapped within one row reads in order
+  const items = [...row.items].sort((a, b) => (Math.abs(a.y - b.y) < 1 ? a.x - b.x : b.y - a.y));
+
+  items.forEach(item => {
+    const text = item.str.trim();
+    if (!text) return;
+    const field = columnFor(item, columns)?.field;
+    if (field) {
+      cells[field] = appendCell(cells[field], text);
+    }
+  });
+  return cells;
+};
+
+// A wrapped line carries only text-column content: no date and nothing in the numeric columns
+const isContinuationRow = (cells: TripCells): boolean => {
+  if (cells.date || cells.effWt || cells.effRt || cells.comm) return false;
+  return !!(cells.truck || cells.customer || cells.pickup || cells.drop || cells.doNumber);
+};
+
+const mergeContinuation = (target: TripCells, continuation: TripCells) => {
+  (['truck', 'customer', 'pickup', 'drop', 'doNumber', 'ot'] as TableField[]).forEach(field => {
+    if (continuation[field]) {
+      target[field] = appendCell(target[field], continuation[field]);
+    }
+  });
+};
+
+const TOTAL_TRIPS_PATTERN = /(TOTAL\s+(NO\.?\s*OF\s+)?TRIPS?|NO\.?\s*OF\s+TRIPS?|TRIP\s+COUNT)\s*[:=]?\s*(\d+)/i;
+const TOTAL_WEIGHT_PATTERN = /TOTAL\s+(EFF\.?\s*)?(WEIGHT|WT)\s*[:=]?\s*(-?[\d,]+(\.\d+)?)/i;
+const TOTAL_COMM_PATTERN = /TOTAL\s+COMM(ISSION)?\s*[:=]?\s*(-?[\d,]+(\.\d+)?)/i;
+
+// Totals from a labelled line ("Total Trips : 14") or a TOTAL row in the table's own columns
+const readTotals = (line: string, cells: TripCells | null): PdfTotals | null => {
+  const totals: PdfTotals = {};
+
+  const trips = line.match(TOTAL_TRIPS_PATTERN);
+  if (trips) totals.trips = parseInt(trips[3], 10);
+  const weight = line.match(TOTAL_WEIGHT_PATTERN);
+  if (weight) totals.weight = parseNumber(weight[3]);
+  const comm = line.match(TOTAL_COMM_PATTERN);
+  if (comm) totals.commission = parseNumber(comm[2]);
+
+  if (cells && /\bTOTAL\b/i.test(line) && !cells.date) {
+    if (totals.weight === undefined && !isNaN(parseNumber(cells.effWt))) totals.weight = parseNumber(cells.effWt);
+    if (totals.commission === undefined && !isNaN(parseNumber(cells.comm))) totals.commission = parseNumber(cells.comm);
+  }
+
+  return Object.keys(totals).length > 0 ? totals : null;
+};
+
+const looksLikeTrip = (line: string): boolean => LOOSE_DATE_PATTERN.test(line) || DO_PATTERN.test(line);
+
+// Fallback for pages without a recognisable header: fields by position
+const isTransactionRow = (items: string[]) => {
+    if (items.length < 8) return false;
+    return DATE_PATTERN.test(items[1]); 
+};
+
+const legacyCells = (rowText: string[]): TripCells | null => {
+    if (!isTransactionRow(rowText)) return null;
+
+    let commIndex = 9;
+    if(rowText.length < 11) {
+       commIndex = rowText.length - 2;
+    }
+
+    return {
+        truck: rowText[0],
+        customer: '',
+        date: rowText[1],
+        pickup: rowText[2],
+        drop: rowText[3],
+        doNumber: rowText[4],
+        effWt: rowText[5],
+        effRt: rowText[6],
+        comm: rowText[commIndex],
+        ot: rowText[rowText.length - 1]
+    };
+};
+
+type RouteMatch = Pick<Transaction, 'matchType' | 'matchedPickup' | 'matchedDrop' | 'pickupScore' | 'dropScore' | 'routeScore'> & {
+  matchedKey?: string;
+};
+
+const matchRoute = (pickup: string, drop: string, rateData: RateData, aliases: LocationAliasMap): RouteMatch => {
+    const { rateMap } = rateData;
+    const exactKey = routeKey(pickup, drop);
+
+    // 1. Try Exact Match
+    if (rateMap.hasOwnProperty(exactKey)) {
+        return { matchedKey: exactKey, matchType: 'EXACT' };
+    }
+
+    // 2. Try the alias dictionary (each side falls back to its own spelling)
+    const aliasPick = aliases[normalizeLocation(pickup)];
+    const aliasDrop = aliases[normalizeLocation(drop)];
+
+    if (aliasPick || aliasDrop) {
+        const aliasKey = routeKey(aliasPick ?? pickup, aliasDrop ?? drop);
+        if (rateMap.hasOwnProperty(aliasKey)) {
+            const [matchedPickup, matchedDrop] = aliasKey.split('|');
+            return { matchedKey: aliasKey, matchType: 'ALIAS', matchedPickup, matchedDrop };
+        }
+    }
+
+    // 3. Try Fuzzy Match on real route pairs (an exact or aliased side stays fixed)
+    const [best] = getRouteCandidates(pickup, drop, rateData, 1, aliases);
+
+    if (best) {
+        return {
+            matchedKey: routeKey(best.pickup, best.drop),
+            matchType: 'FUZZY',
+            matchedPickup: best.pickup,
+            matchedDrop: best.drop,
+            pickupScore: best.pickupScore,
+            dropScore: best.dropScore,
+            routeScore: best.score
+        };
+    }
+
+    return { matchType: 'NONE' };
+};
+
+const NO_OVERTIME = new Set(['', '-', '--', '0', 'N', 'NO', 'NIL', 'NA', 'N/A']);
+
+// "OT" / "Y" -> code only; "1.5" -> hours under the OT code; "NIGHT 2" -> both
+export const parseOvertime = (raw: string): Overtime | undefined => {
+  const value = normalizeLocation(raw);
+  if (NO_OVERTIME.has(value)) return undefined;
+
+  const hours = parseNumber(value);
+  if (/^[\d.,]+$/.test(value) && !isNaN(hours)) {
+    return hours > 0 ? { code: 'OT', hours } : undefined;
+  }
+
+  const withHours = value.match(/^([A-Z][A-Z ]*?)\s*[-:]?\s*(\d+(\.\d+)?)\s*(H|HRS?)?$/);
+  if (withHours) return { code: withHours[1].trim(), hours: parseFloat(withHours[2]) };
+  return { code: value };
+};
+
+const buildTransaction = (
+    cells: TripCells,
+    rateData: RateData,
+    aliases: LocationAliasMap,
+    config: CommissionConfig
+): Transaction | null => {
+    const effWt = parseNumber(cells.effWt);
+    const originalEffRt = parseNumber(cells.effRt);
+    const originalComm = parseNumber(cells.comm);
+
+    if (isNaN(effWt)) return null;
+
+    return applyCommissionRule({
+        truck: cells.truck,
+        customer: cells.customer || undefined,
+        date: cells.date,
+        pickup: cells.pickup,
+        drop: cells.drop,
+        doNumber: cells.doNumber,
+        effWt,
+        originalEffRt,
+        originalComm,
+        ot: cells.ot,
+        overtime: parseOvertime(cells.ot),
+        ...matchAndPrice({ pickup: cells.pickup, drop: cells.drop, date: cells.date, effWt, originalEffRt, originalComm }, rateData, aliases)
+    }, config);
+};
+
+type MatchedFields = PricedFields & Omit<RouteMatch, 'matchedKey'> & Pick<Transaction, 'reviewStatus'>;
+
+const matchAndPrice = (
+    trip: Pick<Transaction, 'pickup' | 'drop' | 'date' | 'effWt' | 'originalEffRt' | 'originalComm'>,
+    rateData: RateData,
+    aliases: LocationAliasMap
+): MatchedFields => {
+    const { matchedKey, ...match } = matchRoute(trip.pickup, trip.drop, rateData, aliases);
+
+    // LOGIC UPDATE: 
+    // If we didn't find the route in the CSV (NONE), trust the PDF's original commission.
+    // Otherwise, calculate using the formula with the rate valid on the trip date.
+    const priced: PricedFields = matchedKey
+        ? priceAgainstRoute(trip, rateData, matchedKey)
+        : { newEffRt: trip.originalEffRt, newComm: trip.originalComm, diff: 0, rateVersion: undefined, outsideRateWindow: undefined };
+
+    return { ...priced, ...match, reviewStatus: match.matchType === 'FUZZY' ? 'PENDING' : undefined };
+};
+
+// Route a trip is priced on, if any (typed-in manual rates have none)
+const pricedRouteKey = (t: Transaction): string | undefined => {
+    if (t.matchType === 'NONE' || (t.matchType === 'MANUAL' && !t.matchedPickup)) return undefined;
+    return routeKey(t.matchedPickup ?? t.pickup, t.matchedDrop ?? t.drop);
+};
+
+const repriceTrip = (t: Transaction, rateData: RateData, aliases: LocationAliasMap): Transaction => {
+    // Typed-in rates don't depend on the sheet
+    if (t.matchType === 'MANUAL' && !t.matchedPickup) return t;
+
+    // A route picked by hand or an accepted guess stays while the new sheet still has it
+    if (t.matchType === 'MANUAL' || (t.matchType === 'FUZZY' && t.reviewStatus === 'ACCEPTED')) {
+        const key = pricedRouteKey(t);
+        if (key && rateData.rateMap.hasOwnProperty(key)) return { ...t, ...priceAgainstRoute(t, rateData, key) };
+    }
+
+    const matched = matchAndPrice(t, rateData, aliases);
+    // The new sheet may have the route a rejected guess stood in for; the same guess stays rejected
+    if (t.reviewStatus === 'REJECTED' && matched.matchType === 'FUZZY' &&
+        matched.matchedPickup === t.matchedPickup && matched.matchedDrop === t.matchedDrop) return t;
+
+    return {
+        ...t,
+        matchedPickup: undefined,
+        matchedDrop: undefined,
+        pickupScore: undefined,
+        dropScore: undefined,
+        routeScore: undefined,
+        ...matched
+    };
+};
+
+/**
+ * Price already-parsed trips against another rate sheet, as if the PDFs were read again,
+ * but keeping manual rates and review decisions the new sheet still supports. DO resolutions are kept.
+ */
+export const repriceReports = (
+    reports: DriverReport[],
+    rateData: RateData,
+    aliases: LocationAliasMap = {},
+    config: CommissionConfig = EMPTY_COMMISSION_CONFIG
+): DriverReport[] =>
+    reports.map(r => recalculateTotals({
+        ...r,
+        transactions: r.transactions.map(t => applyCommissionRule(repriceTrip(t, rateData, aliases), config))
+    }));
+
+export interface DriverParser {
+  addPage: (pageNumber: number, items: TextItem[]) => DriverReport[]; // Drivers completed on this page
+  currentDriver: () => string | null;
+  finish: () => PdfParseResult;
+}
+
+/**
+ * Page-at-a-time parser, so callers can report progress and hand back finished drivers early.
+ * A driver is complete once the next "Driver Name :" line (or the end of the file) is reached.
+ */
+export const createDriverParser = (
+  fileName: string,
+  rateData: RateData,
+  aliases: LocationAliasMap = {},
+  config: CommissionConfig = EMPTY_COMMISSION_CONFIG
+): DriverParser => {
+  const reports: DriverReport[] = [];
+  const documentDiagnostics: ParseDiagnostic[] = [];
+
+  let currentDriver: DriverReport | null = null;
+  // Column layout from the most recent header; carried onto pages that continue the table without one
+  let columns: TableColumn[] | null = null;
+  let pageNumber = 0;
+
+  const note = (kind: DiagnosticKind, message: string, line: string) => {
+    const diagnostic = { sourceFile: fileName, page: pageNumber, kind, message, line };
+    (currentDriver ? currentDriver.diagnostics : documentDiagnostics).push(diagnostic);
+  };
+
+  const addTrip = (cells: TripCells, line: string) => {
+    if (!currentDriver) return;
+    const transaction = buildTransaction(cells, rateData, aliases, config);
+    if (!transaction) {
+      note('UNPARSED_TRIP', `Weight "${cells.effWt}" could not be read; trip skipped`, line);
+      return;
+    }
+    if (isNaN(transaction.originalEffRt)) {
+      note('BAD_NUMBER', `Rate "${cells.effRt}" could not be read`, line);
+    }
+    if (isNaN(transaction.originalComm)) {
+      note('BAD_NUMBER', `Commission "${cells.comm}" could not be read`, line);
+    }
+    currentDriver.transactions.push({ ...transaction, sourceFile: fileName, sourcePage: pageNumber });
+  };
+
+  const addPage = (page: number, items: TextItem[]): DriverReport[] => {
+    pageNumber = page;
+    const completed: DriverReport[] = [];
+    const rows = groupRows(items);
+
+    // A trip row is held back until we know whether the next line wraps into it
+    let pendingTrip: { cells: TripCells; y: number; line: string } | null = null;
+    const flushTrip = () => {
+      if (pendingTrip) addTrip(pendingTrip.cells, pendingTrip.line);
+      pendingTrip = null;
+    };
+
+    for (const row of rows) {
+        const rowText = row.items.map(it => it.str.trim()).filter(s => s.length > 0);
+        const fullLine = rowText.join(' ');
+        if (!fullLine) continue;
+
+        if (fullLine.includes("Driver Name :")) {
+            flushTrip();
+            if (currentDriver) {
+                const done = recalculateTotals(currentDriver);
+                reports.push(done);
+                completed.push(done);
+            }
+            const namePart = fullLine.split("Driver Name :")[1]?.trim() || "Unknown";
+            currentDriver = {
+                driverName: namePart,
+                transactions: [],
+                totalOriginalComm: 0,
+                totalNewComm: 0,
+                mismatchedTrips: 0,
+                fuzzyTrips: 0,
+                rawTextLines: [fullLine],
+                diagnostics: [],
+                pdfTotals: {},
+                reconciliation: { status: 'NO_TOTALS', issues: [] },
+                sourceFiles: [fileName]
+            };
+            continue;
+        }
+
+        if (currentDriver) {
+            currentDriver.rawTextLines.push(fullLine);
+        }
+
+        const detected = detectColumns(row);
+        if (detected) {
+            flushTrip();
+            columns = detected;
+            continue;
+        }
+
+        if (!currentDriver) {
+            note(looksLikeTrip(fullLine) ? 'UNPARSED_TRIP' : 'IGNORED', 'Appears before any "Driver Name :" line', fullLine);
+            continue;
+        }
+
+        // Later totals lines (e.g. a grand total after page subtotals) win
+        const totals = readTotals(fullLine, columns ? splitCells(row, columns) : null);
+        if (totals) {
+            flushTrip();
+            currentDriver.pdfTotals = { ...currentDriver.pdfTotals, ...totals };
+            continue;
+        }
+
+        if (!columns) {
+            const cells = legacyCells(rowText);
+            if (cells) {
+                addTrip(cells, fullLine);
+            } else if (looksLikeTrip(fullLine)) {
+                note('UNPARSED_TRIP', 'No table header found and the line does not have a date in its second cell', fullLine);
+            } else {
+                note('IGNORED', 'Not a trip row', fullLine);
+            }
+            continue;
+        }
+
+        const cells = splitCells(row, columns);
+        if (DATE_PATTERN.test(cells.date)) {
+            flushTrip();
+            pendingTrip = { cells, y: row.y, line: fullLine };
+        } else if (pendingTrip && isContinuationRow(cells) && pendingTrip.y - row.y < MAX_WRAP_GAP) {
+            mergeContinuation(pendingTrip.cells, cells);
+            pendingTrip.y = row.y;
+            pendingTrip.line += ` / ${fullLine}`;
+        } else {
+            flushTrip();
+            if (looksLikeTrip(fullLine)) {
+                note('UNPARSED_TRIP', cells.date ? `Date "${cells.date}" is not dd-mm-yyyy` : 'No date in the Date column', fullLine);
+            } else {
+                note('IGNORED', 'Not a trip row', fullLine);
+            }
+        }
+    }
+
+    flushTrip();
+    return completed;
+  };
+
+  const finish = (): PdfParseResult => {
+    if (currentDriver) {
+      reports.push(recalculateTotals(currentDriver));
+      currentDriver = null;
+    }
+    return { reports, diagnostics: documentDiagnostics };
+  };
+
+  return { addPage, currentDriver: () => currentDriver?.driverName ?? null, finish };
+};
+
+// Main-thread parse of a whole file; the app normally goes through the worker in pdfParserClient.ts
+export const parseDriverPDF = async (
+  file: File,
+  rateData: RateData,
+  aliases: LocationAliasMap = {},
+  config: CommissionConfig = EMPTY_COMMISSION_CONFIG
+): Promise<PdfParseResult> => {
+  const arrayBuffer = await file.arrayBuffer();
+  // @ts-ignore
+  const pdf = await pdfjsLib.getDocument(arrayBuffer).promise;
+  const parser = createDriverParser(file.name, rateData, aliases, config);
+
+  for (let i = 1; i <= pdf.numPages; i++) {
+    const page = await pdf.getPage(i);
+    const textContent = await page.getTextContent();
+    parser.addPage(i, toTextItems(textContent.items));
+  }
+
+  return parser.finish();
+};
+
+// --- Batch Merge ---
+
+const driverKey = (name: string): string => normalizeLocation(name);
+
+// A total can only be checked across parts if every part printed it
+const addTotals = (a: PdfTotals, b: PdfTotals): PdfTotals => {
+  const sum = (x?: number, y?: number) => (x === undefined || y === undefined ? undefined : x + y);
+  return { trips: sum(a.trips, b.trips), weight: sum(a.weight, b.weight), commission: sum(a.commission, b.commission) };
+};
+
+const duplicateNote = (trip: Transaction, firstSeen: Transaction): ParseDiagnostic => ({
+  sourceFile: trip.sourceFile,
+  page: trip.sourcePage ?? 0,
+  kind: 'DUPLICATE_TRIP',
+  message: `DO ${trip.doNumber} was already loaded from ${firstSeen.sourceFile || 'an earlier file'} (page ${firstSeen.sourcePage ?? '?'}); trip skipped`,
+  line: [trip.truck, trip.date, trip.pickup, trip.drop, trip.doNumber, trip.effWt].join(' ')
+});
+
+// Two depots can both send a "report.pdf"; name, size and modified time tell them apart
+export const pdfFileKey = (file: File): string => `${file.name}|${file.size}|${file.lastModified}`;
+
+// Stamps every trip with the PDF's key before the reports are merged
+export const withSourceKey = (reports: DriverReport[], sourceKey: string): DriverReport[] =>
+  reports.map(r => ({ ...r, transactions: r.transactions.map(t => ({ ...t, sourceKey })) }));
+
+// Trips from sessions saved before keys were kept only have the file name
+const sourceOf = (t: Transaction): string | undefined => t.sourceKey ?? t.sourceFile;
+
+// Same driver, DO number, date and route: the same trip read twice
+const repeatKey = (driverName: string, t: Transaction): string | undefined => {
+  const doKey = normalizeDoNumber(t.doNumber);
+  return doKey ? [driverKey(driverName), doKey, toISODate(t.date) || t.date, routeKey(t.pickup, t.drop)].join('#') : undefined;
+};
+
+/**
+ * Folds newly parsed reports into the ones already loaded. Drivers with the same
+ * name become one report. A trip another file already loaded for the same driver,
+ * date and route is dropped with a DUPLICATE_TRIP diagnostic; any other repeated
+ * DO number is kept and flagged for a decision in the Duplicates panel.
+ */
+export const mergeDriverReports = (existing: DriverReport[], incoming: DriverReport[]): DriverReport[] => {
+  const merged = existing.map(r => ({ ...r, transactions: [...r.transactions], diagnostics: [...r.diagnostics] }));
+  const byName = new Map(merged.map(r => [driverKey(r.driverName), r]));
+
+  const seenTrips = new Map<string, Transaction>();
+  merged.forEach(r => r.transactions.forEach(t => {
+    const key = repeatKey(r.driverName, t);
+    if (key && !seenTrips.has(key)) seenTrips.set(key, t);
+  }));
+
+  incoming.forEach(report => {
+    let target = byName.get(driverKey(report.driverName));
+    if (!target) {
+      target = { ...report, transactions: [], diagnostics: [...report.diagnostics], sourceFiles: [...report.sourceFiles] };
+      merged.push(target);
+      byName.set(driverKey(report.driverName), target);
+    } else {
+      target.rawTextLines = [...target.rawTextLines, ...report.rawTextLines];
+      target.diagnostics.push(...report.diagnostics);
+      target.pdfTotals = addTotals(target.pdfTotals, report.pdfTotals);
+      target.sourceFiles = Array.from(new Set([...target.sourceFiles, ...report.sourceFiles]));
+      if (target.pdfNames || report.pdfNames) {
+        target.pdfNames = Array.from(new Set([...(target.pdfNames || [target.driverName]), ...(report.pdfNames || [report.driverName])]));
+      }
+    }
+
+    report.transactions.forEach(trip => {
+      const key = repeatKey(report.driverName, trip);
+      const firstSeen = key ? seenTrips.get(key) : undefined;
+      // Repeats within one file are left to the PDF; only cross-file repeats are dropped
+      if (firstSeen && sourceOf(firstSeen) !== sourceOf(trip)) {
+        target!.diagnostics.push(duplicateNote(trip, firstSeen));
+        return;
+      }
+      if (key && !firstSeen) seenTrips.set(key, trip);
+      target!.transactions.push(trip);
+    });
+  });
+
+  return flagDoIssues(merged);
+};
+
+// --- Driver Master ---
+
+// Case, spacing and punctuation don't tell drivers apart: "Mohd. Ali" is "MOHD ALI"
+export const driverNameKey = (name: string): string => name.toUpperCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+
+const driverIndexes = new WeakMap<DriverRecord[], Map<string, DriverRecord>>();
+
+// Name and alias keys to records; the first record to claim a key keeps it
+const driverIndexFor = (master: DriverRecord[]): Map<string, DriverRecord> => {
+  let index = driverIndexes.get(master);
+  if (!index) {
+    index = new Map();
+    for (const record of master) {
+      for (const name of [record.name, ...record.aliases]) {
+        const key = driverNameKey(name);
+        if (key && !index.has(key)) index.set(key, record);
+      }
+    }
+    driverIndexes.set(master, index);
+  }
+  return index;
+};
+
+export const resolveDriver = (name: string, master: DriverRecord[]): DriverRecord | undefined =>
+  driverIndexFor(master).get(driverNameKey(name));
+
+/**
+ * Renames each report to its master-file driver and sets the employee ID. Names the
+ * file doesn't know keep their PDF spelling and lose any employee ID.
+ */
+export const resolveDriverNames = (reports: DriverReport[], master: DriverRecord[]): DriverReport[] =>
+  reports.map(report => {
+    const pdfNames = report.pdfNames || [report.driverName];
+    const record = pdfNames.map(name => resolveDriver(name, master)).find(Boolean);
+    if (record) return { ...report, driverName: record.name, employeeId: record.employeeId, pdfNames };
+    return {
+      ...report,
+      driverName: pdfNames.length === 1 ? pdfNames[0] : report.driverName,
+      employeeId: undefined,
+      pdfNames: master.length > 0 ? pdfNames : undefined
+    };
+  });
+
+// Re-resolves loaded reports, e.g. after the master file changed, merging name variants into one driver
+export const applyDriverMaster = (reports: DriverReport[], master: DriverRecord[]): DriverReport[] =>
+  mergeDriverReports([], resolveDriverNames(reports, master));
+
+export const isUnknownDriver = (report: DriverReport, master: DriverRecord[]): boolean =>
+  master.length > 0 && !report.employeeId;
+
+// --- Truck View ---
+
+export const NO_TRUCK = '(no truck)';
+
+// One driver's trips on one truck on one date
+export interface TruckDay {
+  date: string;
+  driverName: string;
+  employeeId?: string;
+  trips: Transaction[];
+}
+
+/**
+ * A truck credited to more than one driver on the same date. SHARED_DATE can be a
+ * legitimate shift change; DUPLICATE_DO means the same DO number is claimed by both.
+ */
+export interface TruckConflict {
+  kind: 'SHARED_DATE' | 'DUPLICATE_DO';
+  date: string;
+  drivers: string[];
+  doNumbers: string[]; // DO numbers on more than one of the drivers' trips
+}
+
+export interface TruckReport {
+  truck: string;
+  trips: number;        // Counted trips; held-back DOs are left out like the driver totals
+  heldBackTrips: number;
+  weight: number;
+  totalOriginalComm: number;
+  totalNewComm: number;
+  days: TruckDay[];     // By date, then driver
+  drivers: { driverName: string; employeeId?: string; dates: string[]; trips: number }[];
+  conflicts: TruckConflict[];
+}
+
+const dateOrder = (date: string): string => toISODate(date) || date;
+
+// Pivots the driver reports by truck, busiest truck first
+export const buildTruckReports = (reports: DriverReport[]): TruckReport[] => {
+  const trucks = new Map<string, Map<string, TruckDay>>();
+  reports.forEach(r => r.transactions.forEach(t => {
+    const truck = normalizeLocation(t.truck) || NO_TRUCK;
+    if (!trucks.has(truck)) trucks.set(truck, new Map());
+    const days = trucks.get(truck)!;
+    const key = `${dateOrder(t.date)}|${r.driverName}`;
+    if (!days.has(key)) days.set(key, { date: t.date, driverName: r.driverName, employeeId: r.employeeId, trips: [] });
+    days.get(key)!.trips.push(t);
+  }));
+
+  return Array.from(trucks, ([truck, byKey]): TruckReport => {
+    const days = Array.from(byKey.entries()).sort(([a], [b]) => a.localeCompare(b)).map(([, day]) => day);
+    const counted = days.flatMap(d => d.trips).filter(t => !isHeldBack(t));
+
+    const drivers = new Map<string, TruckReport['drivers'][number]>();
+    days.forEach(d => {
+      const entry = drivers.get(d.driverName) || { driverName: d.driverName, employeeId: d.employeeId, dates: [], trips: 0 };
+      entry.dates.push(d.date);
+      entry.trips += d.trips.length;
+      drivers.set(d.driverName, entry);
+    });
+
+    const conflicts: TruckConflict[] = [];
+    const byDate = new Map<string, TruckDay[]>();
+    days.forEach(d => {
+      const key = dateOrder(d.date);
+      byDate.set(key, [...(byDate.get(key) || []), d]);
+    });
+    byDate.forEach(sameDate => {
+      if (sameDate.length < 2) return;
+      const claimedBy = new Map<string, Set<string>>();
+      sameDate.forEach(d => d.trips.forEach(t => {
+        const key = normalizeDoNumber(t.doNumber);
+        if (!key) return;
+        if (!claimedBy.has(key)) claimedBy.set(key, new Set());
+        claimedBy.get(key)!.add(d.driverName);
+      }));
+      const doNumbers = Array.from(claimedBy).filter(([, names]) => names.size > 1).map(([key]) => key);
+      conflicts.push({
+        kind: doNumbers.length > 0 ? 'DUPLICATE_DO' : 'SHARED_DATE',
+        date: sameDate[0].date,
+        drivers: sameDate.map(d => d.driverName),
+        doNumbers
+      });
+    });
+
+    return {
+      truck,
+      trips: counted.length,
+      heldBackTrips: days.reduce((sum, d) => sum + d.trips.length, 0) - counted.length,
+      weight: counted.reduce((sum, t) => sum + t.effWt, 0),
+      totalOriginalComm: counted.reduce((sum, t) => sum + t.originalComm, 0),
+      totalNewComm: counted.reduce((sum, t) => sum + t.newComm, 0),
+      days,
+      drivers: Array.from(drivers.values()),
+      conflicts
+    };
+  }).sort((a, b) => b.trips - a.trips || a.truck.localeCompare(b.truck));
+};
+
+// --- Run Comparison ---
+
+export type ChangeKind = 'ADDED' | 'REMOVED' | 'CHANGED' | 'UNCHANGED';
+
+// One trip matched across two runs; before is run A, after is run B
+export interface TripComparison {
+  kind: ChangeKind;
+  before?: Transaction;
+  after?: Transaction;
+  changes: string[];   // Fields that differ, e.g. 'New Rate'
+  commDiff: number;    // Change in counted commission (held-back trips count as 0)
+}
+
+export interface DriverComparison {
+  driverName: string;
+  employeeId?: string;
+  kind: ChangeKind;
+  tripsBefore: number;
+  tripsAfter: number;
+  commBefore: number;
+  commAfter: number;
+  trips: TripComparison[];
+}
+
+export interface RunComparison {
+  drivers: DriverComparison[];
+  driversAdded: number;
+  driversRemoved: number;
+  driversChanged: number;
+  tripsAdded: number;
+  tripsRemoved: number;
+  tripsChanged: number;
+  totalBefore: number;
+  totalAfter: number;
+}
+
+// Display names for the two runs in exports
+export interface RunLabels {
+  before: string;
+  after: string;
+}
+
+const AMOUNT_TOLERANCE = 0.005;
+
+// DO number when it is usable, else the trip's own details; repeats get a running suffix
+const tripKeys = (transactions: Transaction[]): string[] => {
+  const seen = new Map<string, number>();
+  return transactions.map(t => {
+    const doNumber = normalizeDoNumber(t.doNumber);
+    const base = DO_NUMBER_PATTERN.test(doNumber)
+      ? doNumber
+      : `${t.date}|${routeKey(t.pickup, t.drop)}|${normalizeLocation(t.truck)}|${t.effWt}`;
+    const count = (seen.get(base) || 0) + 1;
+    seen.set(base, count);
+    return count > 1 ? `${base}#${count}` : base;
+  });
+};
+
+const countedComm = (t?: Transaction): number => (t && !isHeldBack(t) ? t.newComm : 0);
+
+const compareTrip = (before?: Transaction, after?: Transaction): TripComparison => {
+  const commDiff = countedComm(after) - countedComm(before);
+  if (!before) return { kind: 'ADDED', after, changes: [], commDiff };
+  if (!after) return { kind: 'REMOVED', before, changes: [], commDiff };
+
+  const changes: string[] = [];
+  if (Math.abs(after.newEffRt - before.newEffRt) > AMOUNT_TOLERANCE) changes.push('New Rate');
+  if (Math.abs(after.newComm - before.newComm) > AMOUNT_TOLERANCE) changes.push('New Comm');
+  if (after.matchType !== before.matchType) changes.push('Match Type');
+  if (isHeldBack(after) !== isHeldBack(before)) changes.push('Counted');
+  return { kind: changes.length > 0 ? 'CHANGED' : 'UNCHANGED', before, after, changes, commDiff };
+};
+
+/**
+ * Lines up two runs driver by driver (by name) and trip by trip (by DO number).
+ * Drivers and trips only in run B are listed after those from run A.
+ */
+export const compareRuns = (before: DriverReport[], after: DriverReport[]): RunComparison => {
+  const beforeByName = new Map(before.map(r => [driverKey(r.driverName), r]));
+  const afterByName = new Map(after.map(r => [driverKey(r.driverName), r]));
+  const names = [...before, ...after.filter(r => !beforeByName.has(driverKey(r.driverName)))];
+
+  const drivers = names.map((named): DriverComparison => {
+    const a = beforeByName.get(driverKey(named.driverName));
+    const b = afterByName.get(driverKey(named.driverName));
+    const aTrips = a?.transactions || [];
+    const bTrips = b?.transactions || [];
+    const aKeys = tripKeys(aTrips);
+    const bKeys = tripKeys(bTrips);
+    const aKeySet = new Set(aKeys);
+    const bByKey = new Map(bKeys.map((key, i) => [key, bTrips[i]]));
+
+    const trips = [
+      ...aKeys.map((key, i) => compareTrip(aTrips[i], bByKey.get(key))),
+      ...bKeys.filter(key => !aKeySet.has(key)).map(key => compareTrip(undefined, bByKey.get(key)))
+    ];
+
+    const commBefore = a?.totalNewComm || 0;
+    const commAfter = b?.totalNewComm || 0;
+    const kind: ChangeKind = !a ? 'ADDED' : !b ? 'REMOVED'
+      : trips.some(t => t.kind !== 'UNCHANGED') || Math.abs(commAfter - commBefore) > AMOUNT_TOLERANCE ? 'CHANGED' : 'UNCHANGED';
+
+    return {
+      driverName: named.driverName,
+      employeeId: b?.employeeId || a?.employeeId,
+      kind,
+      tripsBefore: aTrips.length,
+      tripsAfter: bTrips.length,
+      commBefore,
+      commAfter,
+      trips
+    };
+  });
+
+  const allTrips = drivers.flatMap(d => d.trips);
+  return {
+    drivers,
+    driversAdded: drivers.filter(d => d.kind === 'ADDED').length,
+    driversRemoved: drivers.filter(d => d.kind === 'REMOVED').length,
+    driversChanged: drivers.filter(d => d.kind === 'CHANGED').length,
+    tripsAdded: allTrips.filter(t => t.kind === 'ADDED').length,
+    tripsRemoved: allTrips.filter(t => t.kind === 'REMOVED').length,
+    tripsChanged: allTrips.filter(t => t.kind === 'CHANGED').length,
+    totalBefore: before.reduce((sum, r) => sum + r.totalNewComm, 0),
+    totalAfter: after.reduce((sum, r) => sum + r.totalNewComm, 0)
+  };
+};
+
+// --- Rate Sheet Diff ---
+
+export type RouteChangeKind = 'ADDED' | 'REMOVED' | 'REPRICED';
+
+export interface RouteRateChange {
+  key: string;            // PICK|DROP
+  kind: RouteChangeKind;
+  before?: number;        // Current rate on the loaded sheet
+  after?: number;         // Current rate on the new sheet
+  trips: number;          // Loaded trips priced on this route by either sheet
+  impact: number;         // Commission change on those trips
+  drivers: { driverName: string; impact: number }[]; // Biggest loss first
+}
+
+export interface RateSheetDiff {
+  changes: RouteRateChange[];
+  unchangedRoutes: number;
+  otherImpact: number;        // Commission change not tied to a changed route (e.g. a trip now fuzzy-matched elsewhere)
+  comparison: RunComparison;  // Loaded reports vs. the same trips on the new sheet
+  repriced: DriverReport[];   // The loaded reports on the new sheet, ready to switch to
+}
+
+// Every dated version, so a route with the same current rate but a changed history still counts as re-priced
+const versionSignature = (versions: RateVersion[] = []): string =>
+  versions.map(v => `${v.from || ''}~${v.to || ''}=${v.rate}`).sort().join(',');
+
+/**
+ * Route-by-route differences between the loaded sheet and a new one, with what switching
+ * would do to each loaded driver's commission.
+ */
+export const diffRateSheets = (
+  current: RateData,
+  next: RateData,
+  reports: DriverReport[],
+  aliases: LocationAliasMap = {},
+  config: CommissionConfig = EMPTY_COMMISSION_CONFIG
+): RateSheetDiff => {
+  const changes = new Map<string, RouteRateChange & { byDriver: Map<string, number> }>();
+  const add = (key: string, kind: RouteChangeKind) => changes.set(key, {
+    key, kind, before: current.rateMap[key], after: next.rateMap[key], trips: 0, impact: 0, drivers: [], byDriver: new Map()
+  });
+
+  let unchangedRoutes = 0;
+  Object.keys(current.rateMap).forEach(key => {
+    if (!next.rateMap.hasOwnProperty(key)) {
+      add(key, 'REMOVED');
+    } else if (current.rateMap[key] !== next.rateMap[key]
+      || versionSignature(current.rateVersions[key]) !== versionSignature(next.rateVersions[key])) {
+      add(key, 'REPRICED');
+    } else {
+      unchangedRoutes += 1;
+    }
+  });
+  Object.keys(next.rateMap).forEach(key => {
+    if (!current.rateMap.hasOwnProperty(key)) add(key, 'ADDED');
+  });
+
+  const repriced = repriceReports(reports, next, aliases, config);
+  const comparison = compareRuns(reports, repriced);
+
+  // Charge each trip's change to the changed route it was priced on, before or after
+  let otherImpact = 0;
+  comparison.drivers.forEach(d => d.trips.forEach(c => {
+    const beforeKey = c.before && pricedRouteKey(c.before);
+    const afterKey = c.after && pricedRouteKey(c.after);
+    const change = (beforeKey && changes.get(beforeKey)) || (afterKey && changes.get(afterKey));
+    if (!change) {
+      otherImpact += c.commDiff;
+      return;
+    }
+    change.trips += 1;
+    change.impact += c.commDiff;
+    change.byDriver.set(d.driverName, (change.byDriver.get(d.driverName) || 0) + c.commDiff);
+  }));
+
+  return {
+    changes: Array.from(changes.values())
+      .map(({ byDriver, ...change }) => ({
+        ...change,
+        drivers: Array.from(byDriver, ([driverName, impact]) => ({ driverName, impact })).sort((a, b) => a.impact - b.impact)
+      }))
+      .sort((a, b) => Math.abs(b.impact) - Math.abs(a.impact) || a.key.localeCompare(b.key)),
+    unchangedRoutes,
+    otherImpact,
+    comparison,
+    repriced
+  };
+};
+
+// --- Export CSVs ---
+
+export const generateMismatchCSV = (reports: DriverReport[]) => {
+  const rows: any[] = [];
+  reports.forEach(r => {
+    r.transactions.forEach(t => {
+      if (t.matchType === 'NONE') {
+        rows.push({
+          'Driver': r.driverName,
+          'Employee ID': r.employeeId || '',
+          'Date': t.date,
+          'Truck': t.truck,
+          'Pickup': t.pickup,
+          'Drop': t.drop,
+          'DO Number': t.doNumber,
+          'Weight': t.effWt,
+          'Old Rate': t.originalEffRt
+        });
+      }
+    });
+  });
+
+  if (rows.length === 0) return;
+
+  downloadFile(Papa.unparse(rows), 'mismatched_routes.csv', 'text/csv;charset=utf-8;');
+};
+
+export const generateAllTripsCSV = (reports: DriverReport[]) => {
+  const rows: any[] = [];
+  reports.forEach(r => {
+    r.transactions.forEach(t => {
+      rows.push({
+        'Driver': r.driverName,
+        'Employee ID': r.employeeId || '',
+        'Date': t.date,
+        'Truck': t.truck,
+        'Pickup': t.pickup,
+        'Drop': t.drop,
+        'DO Number': t.doNumber,
+        'Weight': t.effWt,
+        'Old Rate': t.originalEffRt,
+        'New Rate': t.newEffRt,
+        'Old Comm': t.originalComm,
+        'New Comm': t.newComm,
+        'Diff': t.diff,
+        'Match Type': t.matchType,
+        'Matched Pickup': t.matchedPickup || '',
+        'Matched Drop': t.matchedDrop || '',
+        'Pickup Score': t.pickupScore !== undefined ? t.pickupScore.toFixed(2) : '',
+        'Drop Score': t.dropScore !== undefined ? t.dropScore.toFixed(2) : '',
+        'Route Score': t.routeScore !== undefined ? t.routeScore.toFixed(2) : '',
+        'Review Status': t.reviewStatus || '',
+        'Rate Version': t.rateVersion || '',
+        'Outside Rate Window': t.outsideRateWindow ? 'YES' : '',
+        'Source File': t.sourceFile || '',
+        'Source Page': t.sourcePage ?? '',
+        'DO Issue': t.doIssue || '',
+        'DO Resolution': t.doIssue ? (t.doResolution || 'UNRESOLVED') : '',
+        'Customer': t.customer || '',
+        'Commission Rule': t.commissionRule || 'PDF commission',
+        'OT': t.ot,
+        'OT Code': t.overtime?.code || '',
+        'OT Hours': t.overtime?.hours ?? '',
+        'OT Amount': t.overtimeAmount !== undefined ? t.overtimeAmount.toFixed(2) : ''
+      });
+    });
+  });
+
+  if (rows.length === 0) return;
+
+  // Not final until every fuzzy mapping has been accepted or rejected
+  const filename = countPendingReviews(reports) > 0 ? 'all_trips_data_DRAFT.csv' : 'all_trips_data.csv';
+  downloadFile(Papa.unparse(rows), filename, 'text/csv;charset=utf-8;');
+};
+
+// One row per truck, date and driver, with any conflict on that truck and date
+export const generateTruckCSV = (reports: DriverReport[]) => {
+  const rows: any[] = [];
+  buildTruckReports(reports).forEach(truck => {
+    truck.days.forEach(day => {
+      const conflict = truck.conflicts.find(c => dateOrder(c.date) === dateOrder(day.date));
+      const counted = day.trips.filter(t => !isHeldBack(t));
+      rows.push({
+        'Truck': truck.truck,
+        'Date': day.date,
+        'Driver': day.driverName,
+        'Employee ID': day.employeeId || '',
+        'Trips': counted.length,
+        'DO Not Counted': day.trips.length - counted.length || '',
+        'Weight': counted.reduce((sum, t) => sum + t.effWt, 0).toFixed(2),
+        'Old Comm': counted.reduce((sum, t) => sum + t.originalComm, 0).toFixed(2),
+        'New Comm': counted.reduce((sum, t) => sum + t.newComm, 0).toFixed(2),
+        'DO Numbers': day.trips.map(t => t.doNumber).join('; '),
+        'Conflict': conflict?.kind || '',
+        'Other Drivers': conflict ? conflict.drivers.filter(d => d !== day.driverName).join('; ') : '',
+        'Shared DO Numbers': conflict?.doNumbers.join('; ') || ''
+      });
+    });
+  });
+
+  if (rows.length === 0) return;
+
+  const filename = countPendingReviews(reports) > 0 ? 'truck_report_DRAFT.csv' : 'truck_report.csv';
+  downloadFile(Papa.unparse(rows), filename, 'text/csv;charset=utf-8;');
+};
+
+export const generateDiagnosticsCSV = (reports: DriverReport[], documentDiagnostics: ParseDiagnostic[]) => {
+  const rows: any[] = [];
+  const add = (driver: string, employeeId: string, d: ParseDiagnostic) => {
+    rows.push({
+      'Driver': driver,
+      'Employee ID': employeeId,
+      'Source File': d.sourceFile || '',
+      'Page': d.page,
+      'Kind': d.kind,
+      'Message': d.message,
+      'Line': d.line
     });
+  };
 
-    // Footer row
-    tableData.push([
-        '', '', '', '', 'TOTAL',
-        '',
-        '',
-        '',
-        report.totalOriginalComm.toFixed(2),
-        report.totalNewComm.toFixed(2),
-        (report.totalNewComm - report.totalOriginalComm).toFixed(2)
+  documentDiagnostics.forEach(d => add('', '', d));
+  reports.forEach(r => r.diagnostics.forEach(d => add(r.driverName, r.employeeId || '', d)));
+
+  if (rows.length === 0) return;
+
+  downloadFile(Papa.unparse(rows), 'parse_diagnostics.csv', 'text/csv;charset=utf-8;');
+};
+
+// Every added, removed or changed trip, with its driver's status
+export const generateComparisonCSV = (comparison: RunComparison, labels: RunLabels) => {
+  const rows: any[] = [];
+  const amount = (value?: number) => (value !== undefined ? value.toFixed(2) : '');
+
+  comparison.drivers.forEach(d => {
+    d.trips.forEach(c => {
+      if (c.kind === 'UNCHANGED') return;
+      const t = (c.after || c.before)!;
+      rows.push({
+        'Driver': d.driverName,
+        'Employee ID': d.employeeId || '',
+        'Driver Status': d.kind,
+        'Trip Status': c.kind,
+        'Date': t.date,
+        'Truck': t.truck,
+        'Pickup': t.pickup,
+        'Drop': t.drop,
+        'DO Number': t.doNumber,
+        'Weight': t.effWt,
+        [`Rate (${labels.before})`]: amount(c.before?.newEffRt),
+        [`Rate (${labels.after})`]: amount(c.after?.newEffRt),
+        [`Comm (${labels.before})`]: amount(c.before?.newComm),
+        [`Comm (${labels.after})`]: amount(c.after?.newComm),
+        [`Match (${labels.before})`]: c.before?.matchType || '',
+        [`Match (${labels.after})`]: c.after?.matchType || '',
+        'Comm Impact': c.commDiff.toFixed(2),
+        'Changes': c.changes.join('; ')
+      });
+    });
+  });
+
+  if (rows.length === 0) return;
+
+  downloadFile(Papa.unparse(rows), 'run_comparison.csv', 'text/csv;charset=utf-8;');
+};
+
+// --- PDF Generator ---
+
+type RGB = [number, number, number];
+
+// Row fills matching the on-screen match badges; EXACT rows stay white
+const MATCH_FILLS: Partial<Record<MatchType, { fill: RGB; label: string }>> = {
+  ALIAS: { fill: [224, 231, 255], label: 'Alias' },
+  FUZZY: { fill: [254, 243, 199], label: 'Fuzzy match' },
+  MANUAL: { fill: [219, 234, 254], label: 'Manual rate' },
+  NONE: { fill: [254, 226, 226], label: 'Missing rate' }
+};
+const HELD_BACK_TEXT: RGB = [148, 163, 184];
+const GAIN_TEXT: RGB = [0, 128, 0];
+const LOSS_TEXT: RGB = [200, 0, 0];
+const PAGE_MARGIN = { top: 14, bottom: 14 }; // Room for the page header and footer
+
+const drawLegend = (doc: jsPDF, y: number) => {
+  let x = 14;
+  doc.setFontSize(7);
+  Object.values(MATCH_FILLS).forEach(entry => {
+    doc.setFillColor(...entry!.fill);
+    doc.rect(x, y - 2.5, 3, 3, 'F');
+    doc.text(entry!.label, x + 4, y);
+    x += doc.getTextWidth(entry!.label) + 10;
+  });
+  doc.setTextColor(...HELD_BACK_TEXT);
+  doc.text('Grey: DO not counted', x, y);
+  x += doc.getTextWidth('Grey: DO not counted') + 6;
+  doc.setTextColor(...GAIN_TEXT);
+  doc.text('+ Diff', x, y);
+  doc.setTextColor(...LOSS_TEXT);
+  doc.text('- Diff', x + doc.getTextWidth('+ Diff') + 4, y);
+  doc.setTextColor(0, 0, 0);
+};
+
+// Processing date and source files on top, page numbers below, on every page
+const decoratePages = (doc: jsPDF, reports: DriverReport[], processedAt: Date) => {
+  const sources = Array.from(new Set(reports.flatMap(r => r.sourceFiles)));
+  const width = doc.internal.pageSize.getWidth();
+  const height = doc.internal.pageSize.getHeight();
+  const pages = doc.getNumberOfPages();
+  const header = doc.splitTextToSize(
+    `Processed ${processedAt.toLocaleString()}${sources.length > 0 ? `  |  Source: ${sources.join(', ')}` : ''}`,
+    width - 28
+  ) as string[];
+
+  for (let page = 1; page <= pages; page++) {
+    doc.setPage(page);
+    doc.setFontSize(7);
+    doc.setTextColor(120, 120, 120);
+    doc.text(header.length > 1 ? `${header[0]}...` : header[0], 14, 8);
+    doc.text(`Page ${page} of ${pages}`, width - 14, height - 6, { align: 'right' });
+    doc.setTextColor(0, 0, 0);
+  }
+};
+
+// One driver's table on the current page of doc
+const drawDriverReport = (doc: jsPDF, report: DriverReport, pendingReviews: number) => {
+  doc.setFontSize(14);
+  doc.text(`Driver Incentive Report (Revised)`, 14, 15);
+  if (pendingReviews > 0) {
+      doc.setTextColor(200, 0, 0);
+      doc.text(`DRAFT - ${pendingReviews} fuzzy match(es) pending review`, 110, 15);
+      doc.setTextColor(0, 0, 0);
+  }
+  doc.setFontSize(10);
+  doc.text(`Driver Name: ${report.driverName}${report.employeeId ? ` (${report.employeeId})` : ''}`, 14, 22);
+
+  const { status, issues } = report.reconciliation;
+  if (status === 'MISMATCH') {
+      doc.setTextColor(200, 0, 0);
+      doc.text(`PDF TOTALS MISMATCH: ${issues.join('; ')}`, 80, 22);
+      doc.setTextColor(0, 0, 0);
+  } else if (status === 'MATCHED') {
+      doc.setTextColor(0, 128, 0);
+      doc.text('PDF totals reconciled', 80, 22);
+      doc.setTextColor(0, 0, 0);
+  }
+  drawLegend(doc, 27);
+  
+  const tableData = report.transactions.map(t => {
+      const showMatch = t.matchType !== 'NONE';
+      const score = (value?: number) => value !== undefined ? ` ${Math.round(value * 100)}%` : '';
+
+      return [
+          t.truck,
+          t.date,
+          t.pickup + (showMatch && t.matchedPickup ? `\n(${t.matchedPickup}${score(t.pickupScore)})` : ''),
+          t.drop + (showMatch && t.matchedDrop ? `\n(${t.matchedDrop}${score(t.dropScore)})` : ''),
+          t.doNumber + (t.doIssue ? `\n(${isHeldBack(t) ? 'not counted' : 'kept'})` : ''),
+          t.effWt.toFixed(2),
+          t.originalEffRt.toFixed(2),
+          t.newEffRt.toFixed(2)
+              + (t.rateVersion ? `\n(${t.rateVersion})` : '')
+              + (t.outsideRateWindow ? '\n(no valid rate)' : ''),
+          t.originalComm.toFixed(2),
+          t.newComm.toFixed(2) + (t.commissionRule && t.commissionRule !== STANDARD_RULE_NAME ? `\n(${t.commissionRule})` : ''),
+          (t.newComm - t.originalComm).toFixed(2),
+          t.overtime
+              ? t.overtime.code + (t.overtime.hours !== undefined ? ` ${t.overtime.hours}h` : '')
+                  + (t.overtimeAmount !== undefined ? `\n(${t.overtimeAmount >= 0 ? '+' : ''}${t.overtimeAmount.toFixed(2)})` : '')
+              : ''
+      ];
+  });
+
+  // Footer row
+  tableData.push([
+      '', '', '', '', 'TOTAL',
+      '',
+      '',
+      '',
+      report.totalOriginalComm.toFixed(2),
+      report.totalNewComm.toFixed(2),
+      (report.totalNewComm - report.totalOriginalComm).toFixed(2),
+      ''
+  ]);
+
+  autoTable(doc, {
+    startY: 31,
+    margin: PAGE_MARGIN,
+    head: [['Truck', 'Date', 'Pickup', 'Drop', 'DO#', 'Wt', 'Old Rt', 'New Rt', 'Old Comm', 'New Comm', 'Diff', 'OT']],
+    body: tableData,
+    theme: 'grid',
+    styles: { fontSize: 7, cellPadding: 1 }, // Reduced font size for wrapping
+    headStyles: { fillColor: [41, 128, 185] },
+    columnStyles: {
+        7: { fontStyle: 'bold', textColor: [0, 100, 0] },
+        10: { fontStyle: 'bold' }
+    },
+    didParseCell: (data) => {
+      // Highlighting: row fill by match type, grey for trips not counted, green/red diffs
+      if (data.section !== 'body') return;
+      const t = report.transactions[data.row.index];
+      const diff = t ? t.newComm - t.originalComm : report.totalNewComm - report.totalOriginalComm;
+
+      if (t) {
+        const fill = MATCH_FILLS[t.matchType];
+        if (fill) data.cell.styles.fillColor = fill.fill;
+        if (isHeldBack(t)) data.cell.styles.textColor = HELD_BACK_TEXT;
+      }
+      if (data.column.index === 10 && Math.abs(diff) >= 0.005 && !(t && isHeldBack(t))) {
+        data.cell.styles.textColor = diff > 0 ? GAIN_TEXT : LOSS_TEXT;
+      }
+    }
+  });
+};
+
+// Fleet summary cover page, then one section per driver
+export const generatePDF = (reports: DriverReport[], processedAt: Date = new Date()) => {
+  const doc = new jsPDF();
+  const pendingReviews = countPendingReviews(reports);
+
+  drawFleetSummary(doc, reports, reportPeriod(reports));
+  reports.forEach(report => {
+    doc.addPage();
+    drawDriverReport(doc, report, pendingReviews);
+  });
+  decoratePages(doc, reports, processedAt);
+
+  doc.save(pendingReviews > 0 ? 'Updated_Driver_Incentive_Report_DRAFT.pdf' : 'Updated_Driver_Incentive_Report.pdf');
+};
+
+// --- Payslips ---
+
+// Trip date range as "2024-01" for a single month, else "2024-01-03_to_2024-02-10"
+export const reportPeriod = (reports: DriverReport[]): string => {
+  const dates = reports
+    .flatMap(r => r.transactions.map(t => toISODate(t.date)))
+    .filter((d): d is string => !!d)
+    .sort();
+  if (dates.length === 0) return 'undated';
+  const first = dates[0];
+  const last = dates[dates.length - 1];
+  return first.slice(0, 7) === last.slice(0, 7) ? first.slice(0, 7) : `${first}_to_${last}`;
+};
+
+const safeFileName = (value: string): string => value.trim().replace(/[^\w.-]+/g, '_').replace(/^_+|_+$/g, '') || 'driver';
+
+const lastTableY = (doc: jsPDF): number => (doc as any).lastAutoTable.finalY;
+
+// Fleet totals, match statistics, per-driver totals and missing routes
+const drawFleetSummary = (doc: jsPDF, reports: DriverReport[], period: string) => {
+  const trips = reports.flatMap(r => r.transactions);
+  const totalOld = reports.reduce((sum, r) => sum + r.totalOriginalComm, 0);
+  const totalNew = reports.reduce((sum, r) => sum + r.totalNewComm, 0);
+  const pendingReviews = countPendingReviews(reports);
+
+  doc.setFontSize(14);
+  doc.text('Fleet Incentive Summary', 14, 17);
+  doc.setFontSize(10);
+  doc.text(`Period: ${period}  |  Drivers: ${reports.length}  |  Trips: ${trips.length}`, 14, 24);
+  doc.text(
+    `Old Comm ${totalOld.toFixed(2)}  |  New Comm ${totalNew.toFixed(2)}  |  Diff ${totalNew - totalOld >= 0 ? '+' : ''}${(totalNew - totalOld).toFixed(2)}`,
+    14, 30
+  );
+  if (pendingReviews > 0) {
+    doc.setTextColor(200, 0, 0);
+    doc.text(`DRAFT - ${pendingReviews} fuzzy match(es) pending review`, 14, 36);
+    doc.setTextColor(0, 0, 0);
+  }
+
+  const count = (test: (t: Transaction) => boolean) => trips.filter(test).length;
+  const matchRows: [string, number][] = [
+    ['Exact', count(t => t.matchType === 'EXACT')],
+    ['Alias', count(t => t.matchType === 'ALIAS')],
+    ['Fuzzy match', count(t => t.matchType === 'FUZZY')],
+    ['Manual rate', count(t => t.matchType === 'MANUAL')],
+    ['Missing rate', count(t => t.matchType === 'NONE')],
+    ['Outside rate window', count(t => !!t.outsideRateWindow)],
+    ['DO not counted', count(isHeldBack)]
+  ];
+
+  autoTable(doc, {
+    startY: 40,
+    margin: PAGE_MARGIN,
+    tableWidth: 80,
+    head: [['Match', 'Trips']],
+    body: matchRows,
+    theme: 'grid',
+    styles: { fontSize: 8, cellPadding: 1 },
+    headStyles: { fillColor: [41, 128, 185] },
+    didParseCell: (data) => {
+      const match = (['EXACT', 'ALIAS', 'FUZZY', 'MANUAL', 'NONE'] as MatchType[])[data.row.index];
+      const fill = data.section === 'body' && match ? MATCH_FILLS[match] : undefined;
+      if (fill) data.cell.styles.fillColor = fill.fill;
+    }
+  });
+
+  const body = reports.map(r => [
+    r.driverName,
+    r.employeeId || '',
+    r.transactions.length,
+    r.mismatchedTrips || '',
+    r.fuzzyTrips || '',
+    r.totalOriginalComm.toFixed(2),
+    r.totalNewComm.toFixed(2),
+    (r.totalNewComm - r.totalOriginalComm).toFixed(2)
+  ]);
+  body.push(['TOTAL', '', trips.length, '', '', totalOld.toFixed(2), totalNew.toFixed(2), (totalNew - totalOld).toFixed(2)]);
+
+  autoTable(doc, {
+    startY: lastTableY(doc) + 6,
+    margin: PAGE_MARGIN,
+    head: [['Driver', 'Emp ID', 'Trips', 'Missing', 'Fuzzy', 'Old Comm', 'New Comm', 'Diff']],
+    body,
+    theme: 'grid',
+    styles: { fontSize: 8, cellPadding: 1 },
+    headStyles: { fillColor: [41, 128, 185] },
+    columnStyles: { 7: { fontStyle: 'bold' } },
+    didParseCell: (data) => {
+      if (data.section !== 'body' || data.column.index !== 7) return;
+      const diff = parseFloat(String(data.cell.raw));
+      if (Math.abs(diff) >= 0.005) data.cell.styles.textColor = diff > 0 ? GAIN_TEXT : LOSS_TEXT;
+    }
+  });
+
+  const missing = new Map<string, { trips: number; drivers: Set<string> }>();
+  reports.forEach(r => r.transactions.forEach(t => {
+    if (t.matchType !== 'NONE') return;
+    const route = `${t.pickup} → ${t.drop}`;
+    const entry = missing.get(route) || { trips: 0, drivers: new Set<string>() };
+    entry.trips += 1;
+    entry.drivers.add(r.driverName);
+    missing.set(route, entry);
+  }));
+
+  if (missing.size > 0) {
+    autoTable(doc, {
+      startY: lastTableY(doc) + 6,
+      margin: PAGE_MARGIN,
+      head: [['Missing Route', 'Trips', 'Drivers']],
+      body: Array.from(missing, ([route, e]) => [route, e.trips, Array.from(e.drivers).join(', ')])
+        .sort((a, b) => String(a[0]).localeCompare(String(b[0]))),
+      theme: 'grid',
+      styles: { fontSize: 8, cellPadding: 1 },
+      headStyles: { fillColor: [200, 0, 0] }
+    });
+  }
+};
+
+/**
+ * One PDF per driver, named by employee ID, driver and trip period, zipped into a single download.
+ * The fleet summary covers the same drivers.
+ */
+export const generatePayslipZip = (reports: DriverReport[], includeSummary: boolean, processedAt: Date = new Date()) => {
+  if (reports.length === 0) return;
+  const period = reportPeriod(reports);
+  const pendingReviews = countPendingReviews(reports);
+  const files: Record<string, Uint8Array> = {};
+  const pdfBytes = (doc: jsPDF) => new Uint8Array(doc.output('arraybuffer'));
+
+  reports.forEach(report => {
+    const doc = new jsPDF();
+    drawDriverReport(doc, report, countPendingReviews([report]));
+    decoratePages(doc, [report], processedAt);
+    const base = `${report.employeeId ? `${safeFileName(report.employeeId)}_` : ''}${safeFileName(report.driverName)}_${period}`;
+    let name = `${base}.pdf`;
+    for (let n = 2; files[name]; n++) name = `${base}_${n}.pdf`;
+    files[name] = pdfBytes(doc);
+  });
+
+  if (includeSummary) {
+    const doc = new jsPDF();
+    drawFleetSummary(doc, reports, period);
+    decoratePages(doc, reports, processedAt);
+    files[`Fleet_Summary_${period}.pdf`] = pdfBytes(doc);
+  }
+
+  const zipped = zipSync(files, { level: 0 }); // PDFs are already compressed
+  downloadFile(zipped, pendingReviews > 0 ? `Payslips_${period}_DRAFT.zip` : `Payslips_${period}.zip`, 'application/zip');
+};
+
+// --- Excel Workbook ---
+
+// Formula text alongside the value it works out to, so each step can be checked against the trip
+type Formula = { formula: string; value: number };
+
+const hex = (rgb: RGB): string => rgb.map(c => c.toString(16).padStart(2, '0')).join('').toUpperCase();
+
+const MONEY_FORMAT = '#,##0.00';
+const DIFF_FORMAT = '[Color10]+#,##0.00;[Red]-#,##0.00;0.00';
+const HEADER_STYLE: CellStyle = { bold: true, color: 'FFFFFF', fill: hex([41, 128, 185]) };
+
+// Driver sheet columns; the formulas below refer to them by letter
+const TRIP_COLUMNS: [string, number][] = [
+  ['Truck', 10], ['Date', 11], ['Pickup', 22], ['Drop', 22], ['DO#', 12], ['Wt', 9], ['Old Rt', 9], ['New Rt', 9],
+  ['Old Comm', 11], ['New Comm', 11], ['Diff', 10], ['OT', 8], ['Match', 9], ['Matched Pickup', 22],
+  ['Matched Drop', 22], ['Rule', 14], ['Counted', 9]
+];
+
+/**
+ * newComm as a formula over the trip's weight (F), new rate (H) and old commission (I), mirroring
+ * applyCommissionRule. Falls back to the plain amount when the formula wouldn't reproduce it,
+ * e.g. after the rules were edited without re-applying them.
+ */
+const newCommFormula = (t: Transaction, row: number, config: CommissionConfig): Formula | number => {
+  const fixed = (n: number) => String(Number(n.toFixed(6)));
+  let base: Formula | null = null;
+
+  if (t.commissionRule === STANDARD_RULE_NAME) {
+    base = { formula: `F${row}*H${row}/10`, value: calculateCommission(t.effWt, t.newEffRt) };
+  } else if (t.commissionRule) {
+    const rule = selectCommissionRule(t, config.rules);
+    if (rule && rule.name === t.commissionRule) {
+      if (rule.flatAmount !== undefined) {
+        base = { formula: fixed(rule.flatAmount), value: rule.flatAmount };
+      } else {
+        const weight = rule.minWeight !== undefined
+          ? { formula: `MAX(F${row},${fixed(rule.minWeight)})`, value: Math.max(t.effWt, rule.minWeight) }
+          : { formula: `F${row}`, value: t.effWt };
+        const divisor = rule.divisor || 10;
+        base = { formula: `${weight.formula}*H${row}/${fixed(divisor)}`, value: (weight.value * t.newEffRt) / divisor };
+      }
+      if (rule.bonus) base = { formula: `${base.formula}+${fixed(rule.bonus)}`, value: base.value + rule.bonus };
+      if (rule.rounding && rule.rounding !== 'NONE' && (rule.roundTo ?? 1) > 0) {
+        const step = rule.roundTo ?? 1;
+        const fn = rule.rounding === 'UP' ? 'ROUNDUP' : rule.rounding === 'DOWN' ? 'ROUNDDOWN' : 'ROUND';
+        base = { formula: `${fn}((${base.formula})/${fixed(step)},0)*${fixed(step)}`, value: roundAmount(base.value, rule.rounding, step) };
+      }
+      if (rule.cap !== undefined) base = { formula: `MIN(${base.formula},${fixed(rule.cap)})`, value: Math.min(base.value, rule.cap) };
+    }
+  } else {
+    base = { formula: `I${row}`, value: t.originalComm };
+  }
+
+  if (base && t.commissionRule && t.overtime && t.overtimeAmount !== undefined) {
+    const ot = config.overtime.find(r => normalizeLocation(r.code) === t.overtime!.code);
+    if (ot) {
+      const multiplier = ot.multiplier ?? 1;
+      const addOn = (ot.addOn ?? 0) * (ot.perHour && t.overtime.hours !== undefined ? t.overtime.hours : 1);
+      base = {
+        formula: `(${base.formula})*${fixed(multiplier)}${addOn ? `+${fixed(addOn)}` : ''}`,
+        value: base.value * multiplier + addOn
+      };
+    } else {
+      base = null;
+    }
+  }
+
+  return base && Math.abs(base.value - t.newComm) < 0.005 ? { formula: base.formula, value: t.newComm } : t.newComm;
+};
+
+// One row per trip and a TOTAL row over the counted trips; returns the sheet and its total row number
+const driverSheet = (name: string, report: DriverReport, config: CommissionConfig): { sheet: WorksheetData; totalRow: number } => {
+  const last = report.transactions.length + 1;
+  const totalRow = last + 1;
+  const counted = `Q2:Q${last}`;
+
+  const rows: Cell[][] = [TRIP_COLUMNS.map(([title]) => ({ value: title, style: HEADER_STYLE }))];
+  report.transactions.forEach((t, i) => {
+    const row = i + 2;
+    const heldBack = isHeldBack(t);
+    const fill = MATCH_FILLS[t.matchType]?.fill;
+    const style = (numFmt?: string): CellStyle => ({
+      ...(fill ? { fill: hex(fill) } : {}),
+      ...(heldBack ? { color: hex(HELD_BACK_TEXT) } : {}),
+      ...(numFmt ? { numFmt } : {})
+    });
+    const text = (value: string): Cell => ({ value, style: style() });
+    const money = (value: Cell['value'], numFmt = MONEY_FORMAT): Cell => ({ value, style: style(numFmt) });
+
+    rows.push([
+      text(t.truck), text(t.date), text(t.pickup), text(t.drop), text(t.doNumber),
+      money(t.effWt), money(t.originalEffRt), money(t.newEffRt), money(t.originalComm),
+      money(newCommFormula(t, row, config)),
+      money({ formula: `J${row}-I${row}`, value: t.newComm - t.originalComm }, DIFF_FORMAT),
+      text(t.ot),
+      text(t.matchType),
+      text(t.matchType !== 'NONE' ? t.matchedPickup || '' : ''),
+      text(t.matchType !== 'NONE' ? t.matchedDrop || '' : ''),
+      text(t.commissionRule || 'PDF commission'),
+      text(heldBack ? 'NO' : 'YES')
     ]);
+  });
+
+  const sumCounted = (col: string, value: number, numFmt = MONEY_FORMAT): Cell => ({
+    value: { formula: `SUMIF(${counted},"YES",${col}2:${col}${last})`, value },
+    style: { bold: true, numFmt }
+  });
+  const counts = report.transactions.filter(t => !isHeldBack(t));
+  rows.push([
+    { value: 'TOTAL', style: { bold: true } }, { value: null }, { value: null }, { value: null }, { value: null },
+    sumCounted('F', counts.reduce((sum, t) => sum + t.effWt, 0)),
+    { value: null }, { value: null },
+    sumCounted('I', report.totalOriginalComm),
+    sumCounted('J', report.totalNewComm),
+    sumCounted('K', report.totalNewComm - report.totalOriginalComm, DIFF_FORMAT)
+  ]);
+
+  return { sheet: { name, columns: TRIP_COLUMNS.map(([, width]) => width), rows, freezeRows: 1 }, totalRow };
+};
+
+/**
+ * The PDF report as a workbook: a summary sheet linked to one sheet per driver.
+ * New Comm, Diff and every total are formulas, so edited rates and weights recalculate.
+ */
+export const generateWorkbook = (reports: DriverReport[], config: CommissionConfig, processedAt: Date = new Date()) => {
+  if (reports.length === 0) return;
+  const period = reportPeriod(reports);
+  const pendingReviews = countPendingReviews(reports);
+  const names = sheetNames(['Summary', ...reports.map(r => r.driverName)]);
+  const drivers = reports.map((r, i) => ({ report: r, ...driverSheet(names[i + 1], r, config) }));
+  const sources = Array.from(new Set(reports.flatMap(r => r.sourceFiles)));
+
+  const header = 4;
+  const first = header + 1;
+  const last = header + drivers.length;
+  const link = (name: string, col: string, row: number, value: number, numFmt = MONEY_FORMAT): Cell => ({
+    value: { formula: `${sheetRef(name)}!${col}${row}`, value },
+    style: { numFmt }
+  });
+  const total = (col: string, value: number, numFmt = MONEY_FORMAT): Cell => ({
+    value: { formula: `SUM(${col}${first}:${col}${last})`, value },
+    style: { bold: true, numFmt }
+  });
+  const totalOld = reports.reduce((sum, r) => sum + r.totalOriginalComm, 0);
+  const totalNew = reports.reduce((sum, r) => sum + r.totalNewComm, 0);
+
+  const summary: WorksheetData = {
+    name: names[0],
+    columns: [28, 12, 8, 9, 8, 13, 13, 12],
+    freezeRows: header,
+    rows: [
+      [{ value: `Fleet Incentive Summary ${period}${pendingReviews > 0 ? ` (DRAFT - ${pendingReviews} fuzzy match(es) pending review)` : ''}`, style: { bold: true } }],
+      [{ value: `Processed ${processedAt.toLocaleString()}${sources.length > 0 ? ` | Source: ${sources.join(', ')}` : ''}` }],
+      [],
+      ['Driver', 'Employee ID', 'Trips', 'Missing', 'Fuzzy', 'Old Comm', 'New Comm', 'Diff'].map(title => ({ value: title, style: HEADER_STYLE })),
+      ...drivers.map(({ report, sheet, totalRow }, i) => [
+        { value: report.driverName },
+        { value: report.employeeId || null },
+        { value: report.transactions.length },
+        { value: report.mismatchedTrips, style: report.mismatchedTrips > 0 ? { fill: hex(MATCH_FILLS.NONE!.fill) } : undefined },
+        { value: report.fuzzyTrips, style: report.fuzzyTrips > 0 ? { fill: hex(MATCH_FILLS.FUZZY!.fill) } : undefined },
+        link(sheet.name, 'I', totalRow, report.totalOriginalComm),
+        link(sheet.name, 'J', totalRow, report.totalNewComm),
+        { value: { formula: `G${first + i}-F${first + i}`, value: report.totalNewComm - report.totalOriginalComm }, style: { numFmt: DIFF_FORMAT } }
+      ]),
+      [
+        { value: 'TOTAL', style: { bold: true } },
+        { value: null },
+        total('C', reports.reduce((sum, r) => sum + r.transactions.length, 0), '0'),
+        total('D', reports.reduce((sum, r) => sum + r.mismatchedTrips, 0), '0'),
+        total('E', reports.reduce((sum, r) => sum + r.fuzzyTrips, 0), '0'),
+        total('F', totalOld),
+        total('G', totalNew),
+        total('H', totalNew - totalOld, DIFF_FORMAT)
+      ]
+    ]
+  };
+
+  downloadFile(
+    buildWorkbook([summary, ...drivers.map(d => d.sheet)]),
+    `Driver_Incentive_Report_${period}${pendingReviews > 0 ? '_DRAFT' : ''}.xlsx`,
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+  );
+};
+
+// Summary page with every driver, then one table of trip changes per driver that changed
+export const generateComparisonPDF = (comparison: RunComparison, labels: RunLabels) => {
+  const doc = new jsPDF();
+  const net = comparison.totalAfter - comparison.totalBefore;
+
+  doc.setFontSize(14);
+  doc.text('Run Comparison', 14, 15);
+  doc.setFontSize(10);
+  doc.text(`A: ${labels.before}`, 14, 22);
+  doc.text(`B: ${labels.after}`, 14, 27);
+  doc.text(
+    `Total A ${comparison.totalBefore.toFixed(2)}  |  Total B ${comparison.totalAfter.toFixed(2)}  |  Net impact ${net >= 0 ? '+' : ''}${net.toFixed(2)}`,
+    14, 34
+  );
+  doc.text(
+    `Drivers: ${comparison.driversAdded} added, ${comparison.driversRemoved} removed, ${comparison.driversChanged} changed  |  `
+      + `Trips: ${comparison.tripsAdded} only in B, ${comparison.tripsRemoved} only in A, ${comparison.tripsChanged} changed`,
+    14, 40
+  );
+
+  autoTable(doc, {
+    startY: 46,
+    head: [['Driver', 'Status', 'Trips A', 'Trips B', 'Comm A', 'Comm B', 'Impact']],
+    body: comparison.drivers.map(d => [
+      d.driverName,
+      d.kind,
+      d.tripsBefore,
+      d.tripsAfter,
+      d.commBefore.toFixed(2),
+      d.commAfter.toFixed(2),
+      (d.commAfter - d.commBefore).toFixed(2)
+    ]),
+    theme: 'grid',
+    styles: { fontSize: 8, cellPadding: 1 },
+    headStyles: { fillColor: [41, 128, 185] },
+    columnStyles: { 6: { fontStyle: 'bold' } }
+  });
+
+  comparison.drivers.forEach(d => {
+    const changed = d.trips.filter(c => c.kind !== 'UNCHANGED');
+    if (changed.length === 0) return;
+
+    doc.addPage();
+    doc.setFontSize(12);
+    doc.text(`${d.driverName} (${d.kind})`, 14, 15);
 
     autoTable(doc, {
-      startY: 28,
-      head: [['Truck', 'Date', 'Pickup', 'Drop', 'DO#', 'Wt', 'Old Rt', 'New Rt', 'Old Comm', 'New Comm', 'Diff']],
-      body: tableData,
+      startY: 20,
+      head: [['Date', 'DO#', 'Pickup', 'Drop', 'Status', 'Rate A', 'Rate B', 'Comm A', 'Comm B', 'Match A', 'Match B', 'Impact']],
+      body: changed.map(c => {
+        const t = (c.after || c.before)!;
+        return [
+          t.date,
+          t.doNumber,
+          t.pickup,
+          t.drop,
+          c.kind === 'CHANGED' ? c.changes.join(', ') : c.kind === 'ADDED' ? 'Only in B' : 'Only in A',
+          c.before ? c.before.newEffRt.toFixed(2) : '',
+          c.after ? c.after.newEffRt.toFixed(2) : '',
+          c.before ? c.before.newComm.toFixed(2) : '',
+          c.after ? c.after.newComm.toFixed(2) : '',
+          c.before?.matchType || '',
+          c.after?.matchType || '',
+          c.commDiff.toFixed(2)
+        ];
+      }),
       theme: 'grid',
-      styles: { fontSize: 7, cellPadding: 1 }, // Reduced font size for wrapping
+      styles: { fontSize: 7, cellPadding: 1 },
       headStyles: { fillColor: [41, 128, 185] },
-      columnStyles: {
-          7: { fontStyle: 'bold', textColor: [0, 100, 0] },
-          10: { fontStyle: 'bold' }
-      },
-      didParseCell: (data) => {
-        // Highlighting
-      }
+      columnStyles: { 11: { fontStyle: 'bold' } }
     });
   });
 
-  doc.save('Updated_Driver_Incentive_Report.pdf');
+  doc.save('Run_Comparison.pdf');
 };
\ No newline at end of file
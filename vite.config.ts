@@ -4,4 +4,6 @@ import react from '@vitejs/plugin-react';
 // https://vitejs.dev/config/
 export default defineConfig({
   plugins: [react()],
+  // The PDF parser worker is a module worker and pulls in code-split dependencies
+  worker: { format: 'es' },
 });
\ No newline at end of file
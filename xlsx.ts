@@ -0,0 +1,194 @@
+import { strToU8, zipSync } from 'fflate';
+
+// Just enough SpreadsheetML to write styled sheets with formulas; no reading support
+
+export interface CellStyle {
+  bold?: boolean;
+  color?: string;   // Font colour, RRGGBB
+  fill?: string;    // Background, RRGGBB
+  numFmt?: string;  // Excel number format code, e.g. '#,##0.00'
+}
+
+// A formula keeps its computed value so viewers that don't recalculate still show numbers
+export type CellValue = string | number | { formula: string; value: number } | null;
+
+export interface Cell {
+  value: CellValue;
+  style?: CellStyle;
+}
+
+export interface WorksheetData {
+  name: string;
+  columns: number[];    // Column widths in characters
+  rows: Cell[][];
+  freezeRows?: number;  // Rows kept in view while scrolling, usually the header
+}
+
+const escapeXml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    // Control characters other than tab and newline are not allowed in XML
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '');
+
+export const columnName = (index: number): string => {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+};
+
+// Excel limits names to 31 characters without []:*?/\ and compares them case-insensitively
+export const sheetNames = (names: string[]): string[] => {
+  const used = new Set<string>();
+  return names.map(raw => {
+    const base = raw.replace(/[[\]:*?/\\]/g, ' ').replace(/\s+/g, ' ').replace(/^'+|'+$/g, '').trim().slice(0, 31) || 'Sheet';
+    let name = base;
+    for (let i = 2; used.has(name.toUpperCase()); i++) {
+      const suffix = ` (${i})`;
+      name = base.slice(0, 31 - suffix.length) + suffix;
+    }
+    used.add(name.toUpperCase());
+    return name;
+  });
+};
+
+// Quoted for use in a formula, e.g. 'Ali bin Abu'!J12
+export const sheetRef = (name: string): string => `'${name.replace(/'/g, "''")}'`;
+
+interface StyleTable {
+  get: (style?: CellStyle) => number;
+  toXml: () => string;
+}
+
+// Collects the distinct cell styles; index 0 is the default
+const createStyleTable = (): StyleTable => {
+  const fonts = ['<font><sz val="11"/><name val="Calibri"/></font>'];
+  const fills = ['<fill><patternFill patternType="none"/></fill>', '<fill><patternFill patternType="gray125"/></fill>'];
+  const numFmts: string[] = [];
+  const xfs = ['<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>'];
+  const index = new Map<string, number>([['{}', 0]]);
+
+  const add = (list: string[], entry: string): number => {
+    const found = list.indexOf(entry);
+    if (found >= 0) return found;
+    list.push(entry);
+    return list.length - 1;
+  };
+
+  const get = (style?: CellStyle): number => {
+    const key = JSON.stringify(style || {});
+    const known = index.get(key);
+    if (known !== undefined) return known;
+
+    const s = style || {};
+    const fontId = add(fonts,
+      `<font>${s.bold ? '<b/>' : ''}<sz val="11"/>${s.color ? `<color rgb="FF${s.color}"/>` : ''}<name val="Calibri"/></font>`);
+    const fillId = s.fill
+      ? add(fills, `<fill><patternFill patternType="solid"><fgColor rgb="FF${s.fill}"/><bgColor indexed="64"/></patternFill></fill>`)
+      : 0;
+    const numFmtId = s.numFmt ? 164 + add(numFmts, s.numFmt) : 0;
+
+    xfs.push(
+      `<xf numFmtId="${numFmtId}" fontId="${fontId}" fillId="${fillId}" borderId="0" xfId="0"` +
+      `${numFmtId ? ' applyNumberFormat="1"' : ''}${fontId ? ' applyFont="1"' : ''}${fillId ? ' applyFill="1"' : ''}/>`
+    );
+    index.set(key, xfs.length - 1);
+    return xfs.length - 1;
+  };
+
+  const toXml = (): string => {
+    const formats = numFmts.length > 0
+      ? `<numFmts count="${numFmts.length}">${numFmts.map((code, i) => `<numFmt numFmtId="${164 + i}" formatCode="${escapeXml(code)}"/>`).join('')}</numFmts>`
+      : '';
+    return '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+      formats +
+      `<fonts count="${fonts.length}">${fonts.join('')}</fonts>` +
+      `<fills count="${fills.length}">${fills.join('')}</fills>` +
+      '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+      '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+      `<cellXfs count="${xfs.length}">${xfs.join('')}</cellXfs>` +
+      '<cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles>' +
+      '</styleSheet>';
+  };
+
+  return { get, toXml };
+};
+
+const cellXml = (ref: string, cell: Cell, styles: StyleTable): string => {
+  const s = styles.get(cell.style);
+  const attrs = `r="${ref}"${s ? ` s="${s}"` : ''}`;
+  const { value } = cell;
+
+  if (value === null || value === '') return s ? `<c ${attrs}/>` : '';
+  if (typeof value === 'number') return isFinite(value) ? `<c ${attrs}><v>${value}</v></c>` : `<c ${attrs}/>`;
+  if (typeof value === 'string') return `<c ${attrs} t="inlineStr"><is><t xml:space="preserve">${escapeXml(value)}</t></is></c>`;
+  return `<c ${attrs}><f>${escapeXml(value.formula)}</f><v>${isFinite(value.value) ? value.value : 0}</v></c>`;
+};
+
+const sheetXml = (sheet: WorksheetData, styles: StyleTable): string => {
+  const frozen = sheet.freezeRows
+    ? `<sheetViews><sheetView workbookViewId="0"><pane ySplit="${sheet.freezeRows}" topLeftCell="A${sheet.freezeRows + 1}" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>`
+    : '';
+  const cols = sheet.columns.length > 0
+    ? `<cols>${sheet.columns.map((width, i) => `<col min="${i + 1}" max="${i + 1}" width="${width}" customWidth="1"/>`).join('')}</cols>`
+    : '';
+  const rows = sheet.rows
+    .map((row, r) => `<row r="${r + 1}">${row.map((cell, c) => cellXml(`${columnName(c)}${r + 1}`, cell, styles)).join('')}</row>`)
+    .join('');
+
+  return '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+    `${frozen}${cols}<sheetData>${rows}</sheetData></worksheet>`;
+};
+
+// The .xlsx file for the given sheets, in order
+export const buildWorkbook = (sheets: WorksheetData[]) => {
+  const styles = createStyleTable();
+  const files: Record<string, Uint8Array> = {};
+  sheets.forEach((sheet, i) => {
+    files[`xl/worksheets/sheet${i + 1}.xml`] = strToU8(sheetXml(sheet, styles));
+  });
+
+  files['[Content_Types].xml'] = strToU8(
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+    '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+    '<Default Extension="xml" ContentType="application/xml"/>' +
+    '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+    '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+    sheets.map((_, i) =>
+      `<Override PartName="/xl/worksheets/sheet${i + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`
+    ).join('') +
+    '</Types>'
+  );
+  files['_rels/.rels'] = strToU8(
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+    '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+    '</Relationships>'
+  );
+  files['xl/workbook.xml'] = strToU8(
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+    `<sheets>${sheets.map((sheet, i) => `<sheet name="${escapeXml(sheet.name)}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`).join('')}</sheets>` +
+    '<calcPr calcId="191029" fullCalcOnLoad="1"/>' +
+    '</workbook>'
+  );
+  files['xl/_rels/workbook.xml.rels'] = strToU8(
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+    sheets.map((_, i) =>
+      `<Relationship Id="rId${i + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${i + 1}.xml"/>`
+    ).join('') +
+    `<Relationship Id="rId${sheets.length + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>` +
+    '</Relationships>'
+  );
+  files['xl/styles.xml'] = strToU8(styles.toXml());
+
+  return zipSync(files);
+};